@@ -0,0 +1,68 @@
+/**	Command line tool, that generates TypeScript declarations for PHP functions, constants and classes.
+
+	```bash
+	deno run --allow-all https://deno.land/x/php_world@v0.0.54/gen_dts.ts --file=lib.php --namespace=MainNs --out=php_world.d.ts
+	```
+
+	Options:
+	- `--file=PATH` - PHP file to `require_once` before reflecting (can be repeated).
+	- `--namespace=NS` - reflect only this namespace (can be repeated). Use `--namespace=` for the global namespace.
+	- `--composer=PATH` - path to composer's `vendor/autoload.php`.
+	- `--internal` - also reflect functions, constants and classes from PHP extensions.
+	- `--prefix=NAME` - prefix for generated interface names (default `Php`).
+	- `--php=COMMAND` - PHP-CLI command name (default `php`).
+	- `--out=PATH` - output file (default: print to stdout).
+ **/
+
+import {PhpInterpreter} from './private/php_interpreter.ts';
+import {generate_dts, DtsOptions} from './private/dts_generator.ts';
+
+if (import.meta.main)
+{	const options: DtsOptions = {};
+	let php_cli_name = 'php';
+	let out = '';
+	for (const arg of Deno.args)
+	{	const pos = arg.indexOf('=');
+		const name = pos==-1 ? arg : arg.slice(0, pos);
+		const value = pos==-1 ? '' : arg.slice(pos+1);
+		switch (name)
+		{	case '--file':
+				(options.files ??= []).push(value);
+				break;
+			case '--namespace':
+				(options.namespaces ??= []).push(value);
+				break;
+			case '--composer':
+				options.composer = value;
+				break;
+			case '--internal':
+				options.internal = true;
+				break;
+			case '--prefix':
+				options.prefix = value;
+				break;
+			case '--php':
+				php_cli_name = value;
+				break;
+			case '--out':
+				out = value;
+				break;
+			default:
+				console.error(`Unknown option: ${arg}`);
+				Deno.exit(1);
+		}
+	}
+	const php = new PhpInterpreter({php_cli_name});
+	try
+	{	const dts = await generate_dts(php, options);
+		if (out)
+		{	await Deno.writeTextFile(out, dts);
+		}
+		else
+		{	await Deno.stdout.write(new TextEncoder().encode(dts));
+		}
+	}
+	finally
+	{	await php.g.exit();
+	}
+}
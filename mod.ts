@@ -1,10 +1,24 @@
 import {PhpInterpreter} from './private/php_interpreter.ts';
 
-export {PhpInterpreter} from './private/php_interpreter.ts';
+export {PhpInterpreter, type CallOptions, type CaptureResult} from './private/php_interpreter.ts';
 
-export {InterpreterError, InterpreterExitError} from './private/errors.ts';
+export {InterpreterError, InterpreterExitError, InterpreterAbortError, InterpreterTimeoutError, register_php_error_class} from './private/errors.ts';
 
-export {PhpSettings, type PhpFpmSettings} from './private/php_settings.ts';
+export {PhpSettings, type PhpFpmSettings, type PhpWarning, type PhpTraceRecord} from './private/php_settings.ts';
+
+export {type DenoAccessPolicy} from './private/deno_access.ts';
+
+export {type PhpFpmBackend, type PhpFpmListen} from './private/php_fpm_backends.ts';
+
+export {type PhpIniValue} from './private/php_ini.ts';
+
+export {register_codec, PhpDuration, type PhpCodec} from './private/codecs.ts';
+
+export {PhpMetrics, global_metrics, type PhpMetricsSnapshot, type PhpHistogramSnapshot} from './private/metrics.ts';
+
+export {PhpWorker, type PhpWorkerOptions} from './private/php_worker.ts';
+
+export {PhpInterpreterPool, PhpInterpreterLease, type PhpInterpreterPoolOptions, type PhpInterpreterPoolStats} from './private/php_interpreter_pool.ts';
 
 /**	Default instance of `PhpInterpreter` class for general purposes.
  **/
@@ -24,4 +38,10 @@ export const settings = php.settings;
 
 export {ResponseWithCookies, ServerRequest} from './private/deps.ts';
 
-export {start_proxy, PhpRequest, type ProxyOptions} from './private/start_proxy.ts';
+export {start_proxy, PhpRequest, type ProxyOptions, type ProxyRoute, type ProxyMiddleware, type ResponseFilter} from './private/start_proxy.ts';
+
+export {type StaticFileOptions} from './private/static_files.ts';
+
+export {generate_dts, type DtsOptions} from './private/dts_generator.ts';
+
+export {PhpRepl, type PhpReplOptions} from './private/repl.ts';
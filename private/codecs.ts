@@ -0,0 +1,129 @@
+// deno-lint-ignore no-explicit-any
+type Any = any;
+
+/**	Conversion between Deno values and PHP values, that is applied when values cross the bridge (see `register_codec()`).
+ **/
+export interface PhpCodec<T=Any>
+{	/**	Identifies the codec on both sides. The PHP side must have codec with the same name, registered with `DenoWorld::register_codec()`.
+	 **/
+	name: string;
+
+	/**	Returns true for Deno values, that this codec converts when they're passed to PHP. It's called for objects and bigints.
+		If not given, the codec only decodes values that PHP sends.
+	 **/
+	test?: (value: Any) => boolean;
+
+	/**	Converts Deno value to JSON-compatible value, that the PHP codec will decode.
+	 **/
+	encode?: (value: T) => unknown;
+
+	/**	Converts what the PHP codec encoded to Deno value.
+	 **/
+	decode?: (data: Any) => T;
+}
+
+/**	Duration, that is converted to and from PHP `DateInterval`.
+ **/
+export class PhpDuration
+{	constructor(public years=0, public months=0, public days=0, public hours=0, public minutes=0, public seconds=0, public microseconds=0, public negative=false)
+	{
+	}
+
+	/**	ISO 8601 duration, like `P1Y2M3DT4H5M6.5S`.
+	 **/
+	toString()
+	{	const {years, months, days, hours, minutes, seconds, microseconds, negative} = this;
+		let str = (negative ? '-' : '')+'P';
+		if (years)
+		{	str += years+'Y';
+		}
+		if (months)
+		{	str += months+'M';
+		}
+		if (days)
+		{	str += days+'D';
+		}
+		const s = microseconds ? (seconds + microseconds/1_000_000).toFixed(6).replace(/0+$/, '') : seconds ? seconds+'' : '';
+		if (hours || minutes || s)
+		{	str += 'T' + (hours ? hours+'H' : '') + (minutes ? minutes+'M' : '') + (s ? s+'S' : '');
+		}
+		return str.length<=2 ? str+'T0S' : str;
+	}
+}
+
+const codecs = new Map<string, PhpCodec>;
+let encoders = new Array<PhpCodec>; // codecs that have `test()` and `encode()`, the last registered first
+
+/**	Registers conversion between Deno values and PHP values.
+	Built-in codecs are `Date` (`DateTimeInterface` in PHP), `Map` (associative array), `Set` (list), `BigInt` (int or `GMP`) and `DateInterval` (`PhpDuration`).
+	Registering codec with the same name replaces the previous one. Codecs registered later are tried first.
+ **/
+export function register_codec<T>(codec: PhpCodec<T>)
+{	codecs.delete(codec.name);
+	codecs.set(codec.name, codec);
+	encoders = [...codecs.values()].filter(c => c.test && c.encode).reverse();
+}
+
+/**	Returns codec, that converts this Deno value, if any.
+ **/
+export function find_codec(value: Any)
+{	if (value!=null && typeof(value)=='object' || typeof(value)=='bigint')
+	{	for (const codec of encoders)
+		{	if (codec.test!(value))
+			{	return codec;
+			}
+		}
+	}
+}
+
+/**	Converts value, that PHP codec encoded. If there's no such codec, returns the data as is.
+ **/
+export function decode_codec(name: string, data: Any)
+{	const decode = codecs.get(name)?.decode;
+	return decode ? decode(data) : data;
+}
+
+register_codec<Date>
+(	{	name: 'Date',
+		test: value => value instanceof Date,
+		encode: value => value.toISOString(),
+		decode: data => new Date(data),
+	}
+);
+
+register_codec<Map<Any, Any>>
+(	{	name: 'Map',
+		test: value => value instanceof Map,
+		encode: value =>
+		{	for (const key of value.keys())
+			{	if (typeof(key)!='string' && typeof(key)!='number')
+				{	throw new Error('Only Map with string or number keys can be passed to PHP');
+				}
+			}
+			return [...value];
+		},
+	}
+);
+
+register_codec<Set<Any>>
+(	{	name: 'Set',
+		test: value => value instanceof Set,
+		encode: value => [...value],
+	}
+);
+
+register_codec<bigint>
+(	{	name: 'BigInt',
+		test: value => typeof(value) == 'bigint',
+		encode: value => value+'',
+		decode: data => BigInt(data),
+	}
+);
+
+register_codec<PhpDuration>
+(	{	name: 'DateInterval',
+		test: value => value instanceof PhpDuration,
+		encode: value => [value.years, value.months, value.days, value.hours, value.minutes, value.seconds, value.microseconds, value.negative ? 1 : 0],
+		decode: ([years, months, days, hours, minutes, seconds, microseconds, invert]) => new PhpDuration(years, months, days, hours, minutes, seconds, microseconds, !!invert),
+	}
+);
@@ -0,0 +1,119 @@
+/**	Which Deno globals, classes and methods PHP code can access through `DenoWorld` objects (like `$window`, `$globalThis` and `$php`).
+	Entries are dot-separated paths, like `fetch`, `Math.max`, `Deno.env.get` or `Map`. The interpreter object (`$php`) has path `php`.
+	An entry matches the path itself and all the paths under it, so `Deno` matches `Deno.env.get`. Entry `*` matches everything.
+	Objects returned from functions and constructors have the path of the function with `()` appended, like `Map()` or `Deno.env.toObject()`,
+	and they're matched by the entry for the function, so `Map` also allows `Map().get`.
+	But objects are also tracked by identity: the global object (also known as `globalThis`, `self` and `window`), global variables and classes,
+	and members of objects on the policy paths have their own paths, however PHP code reached them.
+	So `$window->globalThis->Deno` has path `Deno`, and `Deno` that `Object.values($window)` returned is also `Deno`, and not `Object.values()`.
+	Properties `constructor`, `__proto__` and `prototype` are always denied, because they lead to `Function`, that can reach everything.
+ **/
+export interface DenoAccessPolicy
+{	/**	If set, only these paths are accessible.
+		Objects on the way to allowed paths (like `Deno` and `Deno.env` for `Deno.env.get`) can be fetched, but not called or modified.
+	 **/
+	allow?: string[];
+
+	/**	These paths are not accessible, even if allowed.
+	 **/
+	deny?: string[];
+}
+
+const FORBIDDEN_NAMES = new Set(['constructor', '__proto__', 'prototype']);
+
+const known_paths_cache = new WeakMap<DenoAccessPolicy, WeakMap<object, string>>;
+
+export function join_deno_path(path: string, name: string)
+{	return path ? path+'.'+name : name;
+}
+
+/**	Throws error if the member `name` is never accessible when a policy is set.
+ **/
+export function check_deno_member(name: string)
+{	if (FORBIDDEN_NAMES.has(name))
+	{	throw new Error(`Access to Deno "${name}" is denied by settings.deno_access`);
+	}
+}
+
+/**	Throws error if `policy` doesn't allow to access `path`.
+	`is_fetch` means that the path is only going to be fetched (not called, constructed or modified), so it's allowed also on the way to allowed paths.
+ **/
+export function check_deno_access(policy: DenoAccessPolicy, path: string, is_fetch=false)
+{	const {allow, deny} = policy;
+	for (const name of path.split('.'))
+	{	if (FORBIDDEN_NAMES.has(name.replace(/(?:\(\))+$/, '')))
+		{	throw new Error(`Access to Deno "${path}" is denied by settings.deno_access`);
+		}
+	}
+	if (allow && !allow.some(entry => path_matches(entry, path) || is_fetch && entry.startsWith(path+'.')))
+	{	throw new Error(`Access to Deno "${path}" is not allowed by settings.deno_access`);
+	}
+	if (deny && deny.some(entry => path_matches(entry, path)))
+	{	throw new Error(`Access to Deno "${path}" is denied by settings.deno_access`);
+	}
+}
+
+function path_matches(entry: string, path: string)
+{	return entry=='*' || path==entry || path.startsWith(entry+'.') || path.startsWith(entry+'()');
+}
+
+/**	Returns the path by which `policy` knows the object, regardless of how it was reached (see `DenoAccessPolicy`).
+	Returns `''` for the global object, and undefined for objects that are not known.
+ **/
+export function get_known_deno_path(policy: DenoAccessPolicy, value: unknown)
+{	if (is_object(value))
+	{	let known_paths = known_paths_cache.get(policy);
+		if (!known_paths)
+		{	known_paths = get_known_paths(policy);
+			known_paths_cache.set(policy, known_paths);
+		}
+		return known_paths.get(value);
+	}
+}
+
+function get_known_paths(policy: DenoAccessPolicy)
+{	const known_paths = new WeakMap<object, string>;
+	const add_members = (obj: object, path: string) =>
+	{	for (const name of Object.getOwnPropertyNames(obj))
+		{	if (!FORBIDDEN_NAMES.has(name))
+			{	let value;
+				try
+				{	value = Reflect.get(obj, name);
+				}
+				catch
+				{	continue; // getter threw error
+				}
+				if (is_object(value) && !known_paths.has(value))
+				{	known_paths.set(value, join_deno_path(path, name));
+				}
+			}
+		}
+	};
+	known_paths.set(globalThis, '');
+	add_members(globalThis, '');
+	for (const entry of [...policy.allow ?? [], ...policy.deny ?? []])
+	{	let obj: unknown = globalThis;
+		let path = '';
+		for (const name of entry.split('.'))
+		{	if (FORBIDDEN_NAMES.has(name))
+			{	break;
+			}
+			try
+			{	obj = Reflect.get(obj as object, name);
+			}
+			catch
+			{	break;
+			}
+			if (!is_object(obj))
+			{	break;
+			}
+			path = join_deno_path(path, name);
+			add_members(obj, path);
+		}
+	}
+	return known_paths;
+}
+
+function is_object(value: unknown): value is object
+{	return value!=null && (typeof(value)=='object' || typeof(value)=='function');
+}
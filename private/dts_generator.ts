@@ -0,0 +1,555 @@
+import {PhpInterpreter} from './php_interpreter.ts';
+
+const RE_IDENT = /^[A-Za-z_$][\w$]*$/;
+
+const RESERVED_WORDS = new Set
+(	[	'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends',
+		'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected',
+		'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+	]
+);
+
+/**	PHP code, that defines function for collecting information about functions, constants and classes through reflection.
+ **/
+const PHP_REFLECT = String.raw
+`	if (!function_exists('deno_world_dts_reflect'))
+	{	function deno_world_dts_reflect($options)
+		{	foreach ($options['files'] as $file)
+			{	require_once $file;
+			}
+			$namespaces = $options['namespaces'];
+			$is_internal = $options['internal'];
+			$match = function($name) use($namespaces)
+			{	if (strncasecmp($name, 'DenoWorld', 9) == 0)
+				{	return false;
+				}
+				if (count($namespaces) == 0)
+				{	return true;
+				}
+				foreach ($namespaces as $ns)
+				{	if ($ns==='' ? strpos($name, '\\')===false : strncasecmp($name, $ns.'\\', strlen($ns)+1)==0)
+					{	return true;
+					}
+				}
+				return false;
+			};
+			$type = function($type)
+			{	return $type===null ? null : (string)$type;
+			};
+			$params = function($func) use($type)
+			{	$params = [];
+				foreach ($func->getParameters() as $p)
+				{	$params[] = ['name'=>$p->getName(), 'type'=>$type($p->getType()), 'optional'=>$p->isOptional(), 'variadic'=>$p->isVariadic()];
+				}
+				return $params;
+			};
+			$ret = function($func) use($type)
+			{	$ret = $func->getReturnType();
+				if ($ret===null and method_exists($func, 'getTentativeReturnType'))
+				{	$ret = $func->getTentativeReturnType();
+				}
+				return $type($ret);
+			};
+			$doc = function($r)
+			{	$doc = $r->getDocComment();
+				return $doc===false ? '' : $doc;
+			};
+
+			// 1. Load composer classes
+			if ($options['composer'] !== '')
+			{	$loader = require $options['composer'];
+				$class_names = [];
+				if ($loader instanceof \Composer\Autoload\ClassLoader)
+				{	DenoWorldMain::composer_loader_classes($loader, $class_names);
+				}
+				foreach ($class_names as $class_name => $_)
+				{	if ($match($class_name))
+					{	try
+						{	class_exists($class_name) or interface_exists($class_name);
+						}
+						catch (Throwable $e)
+						{	// skip classes that cannot be loaded
+						}
+					}
+				}
+			}
+
+			// 2. Functions
+			$result = ['functions'=>[], 'constants'=>[], 'classes'=>[]];
+			$funcs = get_defined_functions();
+			foreach (array_merge($funcs['user'], $is_internal ? $funcs['internal'] : []) as $name)
+			{	$r = new ReflectionFunction($name);
+				$name = $r->getName();
+				if ($match($name) and $name!='deno_world_dts_reflect')
+				{	$result['functions'][] = ['name'=>$name, 'params'=>$params($r), 'ret'=>$ret($r), 'doc'=>$doc($r)];
+				}
+			}
+
+			// 3. Constants
+			foreach (get_defined_constants(true) as $category => $consts)
+			{	if ($is_internal or $category=='user')
+				{	foreach ($consts as $name => $value)
+					{	if ($match($name))
+						{	$result['constants'][] = ['name'=>$name, 'type'=>gettype($value)];
+						}
+					}
+				}
+			}
+
+			// 4. Classes
+			foreach (array_merge(get_declared_classes(), get_declared_interfaces()) as $name)
+			{	$r = new ReflectionClass($name);
+				if (($is_internal or !$r->isInternal()) and !$r->isAnonymous() and $match($r->getName()))
+				{	$ctor = $r->getConstructor();
+					$class =
+					[	'name' => $r->getName(),
+						'instantiable' => $r->isInstantiable(),
+						'iterable' => $r->implementsInterface('Traversable'),
+						'doc' => $doc($r),
+						'ctor' => $ctor ? $params($ctor) : [],
+						'constants' => [],
+						'props' => [],
+						'methods' => [],
+					];
+					foreach ($r->getReflectionConstants() as $c)
+					{	if ($c->isPublic())
+						{	$class['constants'][] = ['name'=>$c->getName(), 'type'=>gettype($c->getValue())];
+						}
+					}
+					foreach ($r->getProperties(ReflectionProperty::IS_PUBLIC) as $p)
+					{	$class['props'][] = ['name'=>$p->getName(), 'type'=>method_exists($p, 'getType') ? $type($p->getType()) : null, 'static'=>$p->isStatic(), 'readonly'=>method_exists($p, 'isReadOnly') and $p->isReadOnly()];
+					}
+					foreach ($r->getMethods(ReflectionMethod::IS_PUBLIC) as $m)
+					{	if (substr($m->getName(), 0, 2)!='__' or $m->getName()=='__invoke')
+						{	$class['methods'][] = ['name'=>$m->getName(), 'params'=>$params($m), 'ret'=>$ret($m), 'static'=>$m->isStatic(), 'doc'=>$doc($m)];
+						}
+					}
+					$result['classes'][] = $class;
+				}
+			}
+			return $result;
+		}
+	}
+`;
+
+export interface DtsOptions
+{	/**	Reflect only functions, constants and classes from these namespaces (and their subnamespaces).
+		Empty string stands for the global namespace.
+		If not set, will reflect all.
+	 **/
+	namespaces?: string[];
+
+	/**	PHP files to `require_once` before reflecting. They can define functions and classes, or register autoloaders.
+	 **/
+	files?: string[];
+
+	/**	Path to composer's `vendor/autoload.php`. Classes from composer class map and PSR-4 directories will be loaded and reflected (only from `namespaces`, if set).
+	 **/
+	composer?: string;
+
+	/**	Also reflect functions, constants and classes from PHP extensions (not only user-defined). This produces large output.
+	 **/
+	internal?: boolean;
+
+	/**	Prefix for generated interface names. Default: `Php`.
+	 **/
+	prefix?: string;
+}
+
+interface ParamInfo
+{	name: string;
+	type: string | null;
+	optional: boolean;
+	variadic: boolean;
+}
+
+interface FunctionInfo
+{	name: string;
+	params: ParamInfo[];
+	ret: string | null;
+	doc: string;
+}
+
+interface MethodInfo extends FunctionInfo
+{	static: boolean;
+}
+
+interface ConstantInfo
+{	name: string;
+	type: string;
+}
+
+interface PropInfo
+{	name: string;
+	type: string | null;
+	static: boolean;
+	readonly: boolean;
+}
+
+interface ClassInfo
+{	name: string;
+	instantiable: boolean;
+	iterable: boolean;
+	doc: string;
+	ctor: ParamInfo[];
+	constants: ConstantInfo[];
+	props: PropInfo[];
+	methods: MethodInfo[];
+}
+
+interface ReflectResult
+{	functions: FunctionInfo[];
+	constants: ConstantInfo[];
+	classes: ClassInfo[];
+}
+
+interface NsNode
+{	name: string; // like "PhpGlobals", "PhpGlobals_MainNs", "PhpGlobals_MainNs_SubNs"
+	functions: FunctionInfo[];
+	constants: ConstantInfo[];
+	classes: ClassInfo[];
+	children: Map<string, NsNode>;
+}
+
+/**	Uses reflection in the given PHP interpreter to generate TypeScript declarations for PHP functions, constants and classes.
+	Returns contents of `.d.ts` file, that exports `PhpGlobals` and `PhpClasses` interfaces (if `prefix` is `Php`), that describe `php.g` and `php.c` respectively.
+
+	```ts
+	import {php, generate_dts} from 'https://deno.land/x/php_world@v0.0.54/mod.ts';
+
+	await Deno.writeTextFile('php_world.d.ts', await generate_dts(php, {files: ['lib.php'], namespaces: ['MainNs']}));
+	await php.g.exit();
+	```
+ **/
+export async function generate_dts(php: PhpInterpreter, options?: DtsOptions)
+{	await php.g.eval(PHP_REFLECT);
+	const result: ReflectResult = await php.g.deno_world_dts_reflect
+	(	{	namespaces: options?.namespaces?.map(ns => ns.replace(/^\\+|\\+$/g, '')) ?? [],
+			files: options?.files ?? [],
+			composer: options?.composer ?? '',
+			internal: options?.internal ?? false,
+		}
+	);
+	return new DtsWriter(options?.prefix ?? 'Php', result).write();
+}
+
+class DtsWriter
+{	#prefix: string;
+	#globals: NsNode;
+	#classes: NsNode;
+	#class_names = new Map<string, string>; // lowercased PHP class name => TS name part
+	#out = '';
+
+	constructor(prefix: string, result: ReflectResult)
+	{	this.#prefix = prefix;
+		this.#globals = new_ns_node(prefix+'Globals');
+		this.#classes = new_ns_node(prefix+'Classes');
+		for (const func of result.functions)
+		{	ns_node_for(this.#globals, func.name).functions.push(func);
+		}
+		for (const constant of result.constants)
+		{	ns_node_for(this.#globals, constant.name).constants.push(constant);
+		}
+		for (const class_info of result.classes)
+		{	ns_node_for(this.#classes, class_info.name).classes.push(class_info);
+			this.#class_names.set(class_info.name.toLowerCase(), class_info.name.replaceAll('\\', '_'));
+		}
+	}
+
+	write()
+	{	this.#out =
+		`// Generated by php_world from PHP reflection. Do not edit manually.\n`+
+		`// deno-lint-ignore-file no-explicit-any no-empty-interface\n`+
+		`\n`+
+		`/**\tRemote PHP object handle, that must be disposed when not in use anymore.\n`+
+		` **/\n`+
+		`export interface ${this.#prefix}Object extends Disposable, AsyncDisposable\n`+
+		`{\t[name: string]: any;\n`+
+		`}\n`+
+		`\n`+
+		`/**\tResult of a remote function call. Await it to get the returned value, or get \`this\` property to get handle to the returned object.\n`+
+		` **/\n`+
+		`export type ${this.#prefix}Call<T, H = ${this.#prefix}Object> = Promise<T> & {readonly this: Promise<H>};\n`;
+		this.#write_globals(this.#globals);
+		this.#write_classes(this.#classes);
+		return this.#out;
+	}
+
+	#write_globals(node: NsNode)
+	{	const members = new Map<string, string>;
+		for (const func of node.functions)
+		{	const name = last_name(func.name);
+			add_member(members, name, doc_comment(func.doc)+`\t${member_name(name)}(${this.#params(func.params)}): ${this.#prefix}Call<${this.#type(func.ret, false)}${this.#handle_type(func.ret)}>;\n`);
+		}
+		for (const constant of node.constants)
+		{	const name = last_name(constant.name);
+			add_member(members, name, `\treadonly ${member_name(name)}: Promise<${value_type(constant.type)}>;\n`);
+		}
+		for (const [name, child] of node.children)
+		{	add_member(members, name, `\t${member_name(name)}: ${child.name};\n`);
+		}
+		this.#write_interface(node.name, '', '', members);
+		for (const child of node.children.values())
+		{	this.#write_globals(child);
+		}
+	}
+
+	#write_classes(node: NsNode)
+	{	const members = new Map<string, string>;
+		for (const class_info of node.classes)
+		{	const name = last_name(class_info.name);
+			const ts_name = class_info.name.replaceAll('\\', '_');
+			const child = node.children.get(name);
+			add_member(members, name, doc_comment(class_info.doc)+`\t${member_name(name)}: ${this.#prefix}Class_${ts_name}${child ? ' & '+child.name : ''};\n`);
+		}
+		for (const [name, child] of node.children)
+		{	add_member(members, name, `\t${member_name(name)}: ${child.name};\n`);
+		}
+		this.#write_interface(node.name, '', '', members);
+		for (const class_info of node.classes)
+		{	this.#write_class(class_info);
+		}
+		for (const child of node.children.values())
+		{	this.#write_classes(child);
+		}
+	}
+
+	#write_class(class_info: ClassInfo)
+	{	const ts_name = class_info.name.replaceAll('\\', '_');
+		const object_name = `${this.#prefix}Object_${ts_name}`;
+
+		// Static side
+		const members = new Map<string, string>;
+		if (class_info.instantiable)
+		{	members.set('new()', `\tnew(${this.#params(class_info.ctor, class_info)}): Promise<${object_name}>;\n`);
+		}
+		for (const constant of class_info.constants)
+		{	add_member(members, constant.name, `\treadonly ${member_name(constant.name)}: Promise<${value_type(constant.type)}>;\n`);
+		}
+		for (const prop of class_info.props)
+		{	if (prop.static)
+			{	add_member(members, '$'+prop.name, this.#accessors('$'+prop.name, prop));
+			}
+		}
+		for (const method of class_info.methods)
+		{	if (method.static)
+			{	add_member(members, method.name, doc_comment(method.doc)+`\t${member_name(method.name)}(${this.#params(method.params, class_info)}): ${this.#prefix}Call<${this.#type(method.ret, false, class_info)}${this.#handle_type(method.ret, class_info)}>;\n`);
+			}
+		}
+		this.#write_interface(`${this.#prefix}Class_${ts_name}`, '', `Class \`${class_info.name}\`. Access it as \`c.${class_info.name.replaceAll('\\', '.')}\`.`, members);
+
+		// Instance side
+		members.clear();
+		for (const method of class_info.methods)
+		{	if (!method.static)
+			{	if (method.name == '__invoke')
+				{	members.set('()', doc_comment(method.doc)+`\t(${this.#params(method.params, class_info)}): Promise<${this.#type(method.ret, false, class_info)}>;\n`);
+				}
+				else
+				{	add_member(members, method.name, doc_comment(method.doc)+`\t${member_name(method.name)}(${this.#params(method.params, class_info)}): Promise<${this.#type(method.ret, false, class_info)}>;\n`);
+				}
+			}
+		}
+		for (const prop of class_info.props)
+		{	if (!prop.static)
+			{	add_member(members, prop.name, this.#accessors(prop.name, prop));
+			}
+		}
+		const ext = `${this.#prefix}Object` + (class_info.iterable ? ', AsyncIterable<any>' : '');
+		this.#write_interface(object_name, ext, `Handle to instance of \`${class_info.name}\`.`, members);
+	}
+
+	#write_interface(name: string, ext: string, doc: string, members: Map<string, string>)
+	{	this.#out += '\n';
+		if (doc)
+		{	this.#out += `/**\t${doc}\n **/\n`;
+		}
+		this.#out += `export interface ${name}${ext ? ' extends '+ext : ''}\n{`;
+		let body = [...members.values()].join('');
+		if (body.length == 0)
+		{	this.#out += '}\n';
+		}
+		else
+		{	if (body.charAt(0) == '\t')
+			{	body = body.slice(1);
+			}
+			else
+			{	// starts with doc comment
+				body = body.replace(/^\t\/\*\*/, '/**');
+			}
+			this.#out += `\t${body}}\n`;
+		}
+	}
+
+	#accessors(name: string, prop: PropInfo)
+	{	const get_type = this.#type(prop.type, false);
+		if (prop.readonly)
+		{	return `\treadonly ${member_name(name)}: Promise<${get_type}>;\n`;
+		}
+		return `\tget ${member_name(name)}(): Promise<${get_type}>;\n\tset ${member_name(name)}(value: ${this.#type(prop.type, true)});\n`;
+	}
+
+	#params(params: ParamInfo[], self_class?: ClassInfo)
+	{	return params.map
+		(	p =>
+			{	let name = p.name;
+				if (RESERVED_WORDS.has(name) || !RE_IDENT.test(name))
+				{	name = '_'+name.replace(/\W/g, '_');
+				}
+				const type = this.#type(p.type, true, self_class);
+				return p.variadic ? `...${name}: ${type.includes(' ') ? '('+type+')' : type}[]` : `${name}${p.optional ? '?' : ''}: ${type}`;
+			}
+		).join(', ');
+	}
+
+	/**	Converts PHP type to TypeScript type.
+		Objects are passed to PHP by handle (so parameters of class types accept handles), and returned from PHP as JSON.
+	 **/
+	#type(php_type: string|null, is_param: boolean, self_class?: ClassInfo): string
+	{	if (!php_type)
+		{	return 'any';
+		}
+		let nullable = false;
+		if (php_type.charAt(0) == '?')
+		{	nullable = true;
+			php_type = php_type.slice(1);
+		}
+		const types = new Set<string>;
+		for (const part of php_type.replace(/[()]/g, '').split('|'))
+		{	let ts_type;
+			if (part.includes('&'))
+			{	ts_type = is_param ? 'any' : 'Record<string, any>';
+			}
+			else
+			{	switch (part.replace(/^\\/, '').toLowerCase())
+				{	case 'int':
+					case 'float':
+						ts_type = 'number';
+						break;
+					case 'string':
+						ts_type = 'string';
+						break;
+					case 'bool':
+						ts_type = 'boolean';
+						break;
+					case 'true':
+					case 'false':
+						ts_type = part.toLowerCase();
+						break;
+					case 'null':
+					case 'void':
+						ts_type = 'null';
+						break;
+					case 'never':
+						ts_type = 'never';
+						break;
+					case 'array':
+					case 'iterable':
+						ts_type = 'any[] | Record<string, any>';
+						break;
+					case 'mixed':
+					case 'callable':
+					case 'resource':
+						ts_type = 'any';
+						break;
+					case 'object':
+						ts_type = is_param ? 'any' : 'Record<string, any>';
+						break;
+					case 'self':
+					case 'static':
+					case 'parent':
+						ts_type = !is_param ? 'Record<string, any>' : self_class ? this.#object_type(self_class.name) : 'any';
+						break;
+					default:
+						ts_type = !is_param ? 'Record<string, any>' : this.#object_type(part);
+				}
+			}
+			if (ts_type == 'any')
+			{	return 'any';
+			}
+			types.add(ts_type);
+		}
+		if (nullable)
+		{	types.add('null');
+		}
+		return [...types].join(' | ');
+	}
+
+	#object_type(class_name: string)
+	{	const ts_name = this.#class_names.get(class_name.replace(/^\\/, '').toLowerCase());
+		return ts_name ? `${this.#prefix}Object_${ts_name}` : 'any';
+	}
+
+	/**	Second type argument to `PhpCall`, that is the type of handle that `this` property returns.
+	 **/
+	#handle_type(php_type: string|null, self_class?: ClassInfo)
+	{	if (php_type)
+		{	const parts = php_type.replace(/^\?/, '').split('|').filter(p => p.toLowerCase() != 'null');
+			if (parts.length == 1)
+			{	let class_name = parts[0];
+				const lc = class_name.toLowerCase();
+				if (self_class && (lc=='self' || lc=='static'))
+				{	class_name = self_class.name;
+				}
+				const ts_name = this.#class_names.get(class_name.replace(/^\\/, '').toLowerCase());
+				if (ts_name)
+				{	return `, ${this.#prefix}Object_${ts_name}`;
+				}
+			}
+		}
+		return '';
+	}
+}
+
+function new_ns_node(name: string): NsNode
+{	return {name, functions: [], constants: [], classes: [], children: new Map};
+}
+
+/**	Finds (or creates) node for namespace of the given fully qualified name.
+ **/
+function ns_node_for(root: NsNode, fq_name: string)
+{	const parts = fq_name.split('\\');
+	let node = root;
+	for (let i=0; i<parts.length-1; i++)
+	{	let child = node.children.get(parts[i]);
+		if (!child)
+		{	child = new_ns_node(node.name+'_'+parts[i]);
+			node.children.set(parts[i], child);
+		}
+		node = child;
+	}
+	return node;
+}
+
+function last_name(fq_name: string)
+{	return fq_name.slice(fq_name.lastIndexOf('\\') + 1);
+}
+
+function member_name(name: string)
+{	return RE_IDENT.test(name) && name!='new' ? name : JSON.stringify(name);
+}
+
+function add_member(members: Map<string, string>, name: string, code: string)
+{	if (!members.has(name)) // PHP allows method and property with the same name, but typescript doesn't
+	{	members.set(name, code);
+	}
+}
+
+function value_type(gettype: string)
+{	switch (gettype)
+	{	case 'boolean': return 'boolean';
+		case 'integer':
+		case 'double': return 'number';
+		case 'string': return 'string';
+		case 'NULL': return 'null';
+		case 'array': return 'any[] | Record<string, any>';
+		default: return 'any';
+	}
+}
+
+function doc_comment(doc: string)
+{	if (typeof(doc)!='string' || !doc)
+	{	return '';
+	}
+	return '\t' + doc.split(/\r?\n/).map((line, i) => i==0 ? line.trim() : '\t '+line.trim()).join('\n') + '\n';
+}
@@ -4,9 +4,31 @@ export class InterpreterExitError extends Error
 	}
 }
 
-export class InterpreterError extends Error
-{	constructor(public override message: string, public fileName: string, public lineNumber: number, public phpStack: string, for_stack?: Error)
+/**	Remote operation was aborted through `AbortSignal`.
+	If the operation was already executing, the interpreter was terminated.
+ **/
+export class InterpreterAbortError extends Error
+{	constructor(public override message: string, public reason?: unknown)
+	{	super(message);
+	}
+}
+
+/**	Remote operation didn't complete in time, so the interpreter was terminated.
+ **/
+export class InterpreterTimeoutError extends InterpreterAbortError
+{	constructor(public override message: string, public timeout: number)
 	{	super(message);
+	}
+}
+
+/**	PHP exception propagated to Deno.
+	`phpClass` is the PHP class name of the exception (like `InvalidArgumentException`), and `code` is what `getCode()` returned (it's string for `PDOException`).
+	If the PHP exception had `getPrevious()`, it's converted to `InterpreterError` as well, and is available as `cause`.
+	To have certain PHP exceptions converted to custom subclasses of this class, use `register_php_error_class()`.
+ **/
+export class InterpreterError extends Error
+{	constructor(public override message: string, public fileName: string, public lineNumber: number, public phpStack: string, for_stack?: Error, public phpClass='', public code: number|string=0, cause?: InterpreterError)
+	{	super(message, cause && {cause});
 		let stack = this.stack + '';
 		if (phpStack)
 		{	let header_to = stack.indexOf('\r');
@@ -98,3 +120,44 @@ export class InterpreterError extends Error
 		this.stack = stack;
 	}
 }
+
+type InterpreterErrorClass = new (message: string, fileName: string, lineNumber: number, phpStack: string, for_stack?: Error, phpClass?: string, code?: number|string, cause?: InterpreterError) => InterpreterError;
+
+const php_error_classes = new Map<string, InterpreterErrorClass>; // lowercased PHP class name => error class
+
+/**	Exceptions of PHP class `php_class` (and it's subclasses) will be thrown to Deno as instances of `error_class`, that must extend `InterpreterError`.
+	If the exception class (or one of it's parents) is registered several times, the most specific class wins.
+	Pass `undefined` to remove the mapping.
+
+	```ts
+	class PdoError extends InterpreterError {}
+	register_php_error_class('PDOException', PdoError);
+	```
+ **/
+export function register_php_error_class(php_class: string, error_class: InterpreterErrorClass|undefined)
+{	php_class = php_class.replace(/^\\/, '').toLowerCase();
+	if (error_class)
+	{	php_error_classes.set(php_class, error_class);
+	}
+	else
+	{	php_error_classes.delete(php_class);
+	}
+}
+
+/**	Creates `InterpreterError` (or registered subclass) from the PHP exception, that is serialized as `[file, line, message, trace, classes, code, previous]`,
+	where `classes` are PHP exception class followed by it's parent classes.
+ **/
+export function create_interpreter_error(data: unknown[], for_stack?: Error): InterpreterError
+{	const [file, line, message, trace, classes, code, previous] = data;
+	const php_classes = Array.isArray(classes) ? classes.map(c => c+'') : [];
+	const cause = Array.isArray(previous) ? create_interpreter_error(previous) : undefined;
+	let error_class: InterpreterErrorClass = InterpreterError;
+	for (const php_class of php_classes)
+	{	const c = php_error_classes.get(php_class.toLowerCase());
+		if (c)
+		{	error_class = c;
+			break;
+		}
+	}
+	return new error_class(message+'', file+'', Number(line), trace+'', for_stack, php_classes[0] ?? '', typeof(code)=='string' ? code : Number(code ?? 0), cause);
+}
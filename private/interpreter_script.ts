@@ -110,8 +110,75 @@ class DenoWorld implements ArrayAccess, JsonSerializable
 	public function jsonSerialize()
 	{	return json_decode(DenoWorldMain::write_read(DenoWorldMain::RES_JSON_ENCODE, $this->deno_inst_id));
 	}
+
+	/**	Calls the callback, and Deno function and method calls made inside it don't wait for results, but return DenoWorld\Promise objects.
+	 **/
+	public static function async(callable $func)
+	{	return DenoWorldMain::call_async($func);
+	}
+
+	/**	Waits for all the promises, and returns array of their values (with the same keys).
+		Other array elements are returned as is.
+	 **/
+	public static function all(array $promises)
+	{	$values = [];
+		foreach ($promises as $k => $promise)
+		{	$values[$k] = $promise instanceof DenoWorldPromise ? $promise->wait() : $promise;
+		}
+		return $values;
+	}
+
+	/**	Registers conversion between PHP objects of the given class and Deno values. Deno side must have codec with the same name, registered with register_codec().
+		$encode receives the PHP object, and returns JSON-compatible value, that the Deno codec will decode. $decode receives what the Deno codec encoded, and returns PHP value.
+		Registering codec with the same name replaces the previous one. Codecs registered later are tried first.
+	 **/
+	public static function register_codec(string $name, string $class_name, callable $encode, callable $decode)
+	{	DenoWorldMain::register_codec($name, $class_name, $encode, $decode);
+	}
 }
 
+/**	Pending Deno promise. It's returned from Deno calls made inside DenoWorld::async().
+	The promise settles in background (while PHP continues), and wait() blocks till it's settled.
+ **/
+class DenoWorldPromise extends DenoWorld
+{	private bool $is_settled = false;
+	private $value = null;
+	private ?Throwable $error = null;
+
+	public function wait()
+	{	if (!$this->is_settled)
+		{	try
+			{	$this->value = DenoWorldMain::write_read(DenoWorldMain::RES_AWAIT, $this->deno_inst_id);
+			}
+			catch (Throwable $e)
+			{	$this->error = $e;
+			}
+			$this->is_settled = true;
+		}
+		if ($this->error)
+		{	throw $this->error;
+		}
+		return $this->value;
+	}
+
+	/**	Waits for the promise, and returns the result of $on_fulfilled($value) or $on_rejected($error).
+		If the callback is not given, returns the value, or throws the error.
+	 **/
+	public function then(?callable $on_fulfilled=null, ?callable $on_rejected=null)
+	{	try
+		{	$value = $this->wait();
+		}
+		catch (Throwable $e)
+		{	if (!$on_rejected)
+			{	throw $e;
+			}
+			return $on_rejected($e);
+		}
+		return $on_fulfilled ? $on_fulfilled($value) : $value;
+	}
+}
+class_alias('DenoWorldPromise', 'DenoWorld\\Promise');
+
 class DenoWorldDefaultIterator implements Iterator
 {	private DenoWorld $subj; // hold reference to the subject object to prevent it from being destroyed while iterating
 	private int $deno_inst_id;
@@ -277,6 +344,14 @@ class DenoWorldMain extends DenoWorld
 	private const REC_CALL_INCLUDE_ONCE = 40;
 	private const REC_CALL_REQUIRE = 41;
 	private const REC_CALL_REQUIRE_ONCE = 42;
+	private const REC_BIN = 43;
+	private const REC_CAPTURE_START = 44;
+	private const REC_CAPTURE_END = 45;
+	private const REC_BATCH = 46;
+	private const REC_CLASS_ITERATE_SEND = 47;
+	private const REC_CLASS_ITERATE_THROW = 48;
+	private const REC_CLASS_ITERATE_END = 49;
+	private const REC_COMPOSER_CLASSES = 50;
 
 	public const RES_ERROR = 1;
 	public const RES_GET_CLASS = 2;
@@ -294,6 +369,10 @@ class DenoWorldMain extends DenoWorld
 	public const RES_CLASSSTATIC_CALL = 14;
 	public const RES_CALL = 15;
 	public const RES_JSON_ENCODE = 16;
+	public const RES_BIN = 17;
+	public const RES_WARNING = 18;
+	public const RES_AWAIT = 19;
+	private const RES_IS_ASYNC = 0x100; // flag that is added to RES_CALL and similar, so deno doesn't await the result
 
 	private const RESTYPE_HAS_ITERATOR = 1;
 	private const RESTYPE_HAS_LENGTH = 2;
@@ -302,17 +381,43 @@ class DenoWorldMain extends DenoWorld
 	private const RESTYPE_IS_JSON = 16;
 	private const RESTYPE_IS_ERROR = 32;
 
+	private const MAX_SAFE_INTEGER = 9007199254740991; // greater integers are sent to deno as BigInt
+
 	private static string $end_mark = '';
 	private static array $php_insts = []; // deno has handles to these objects
-	private static array $php_insts_iters = [];
+	private static array $php_insts_iters = []; // [$iter, $is_started, $pending_error]
 	private static string $php_insts_destroyed = '';
 	private static int $php_inst_id_enum = 0;
+	private static array $bins = []; // binary strings received from deno, that will be referenced by the next record
+	private static string $bins_out = ''; // binary strings to send to deno together with the next record
+	private static int $bin_id_enum = 0;
+	private static int $strict_levels = -1; // errors of these levels are thrown as exceptions
+	private static bool $report_warnings = false; // send errors of other levels to deno
+	private static string $warnings = ''; // RES_WARNING records to send to deno together with the next record
+	private static array $calls = []; // records that are currently being processed (for each nesting level)
+	private static array $capture_levels = []; // output buffering levels of the started captures
+	private static array $batches = []; // records of REC_BATCH that are not yet executed (for each nesting level)
+	private static bool $is_async = false; // inside DenoWorld::async()
+	private static string $composer_autoload = ''; // path to composer autoload.php, if loaded
+	private static bool $use_codecs = false; // settings.codecs
+	private static array $codecs = []; // codec name => [$class_name, $encode, $decode]
 	private static $commands_io;
 
 	public static function error_handler($err_code, $err_msg, $file, $line)
 	{	$v = error_reporting();
 		if (($v & $err_code)) // if "@" operator was used: 1) on PHP7.4 error_reporting() returns zero; 2) on PHP8.0 error_reporting() returns previously set value with $err_code bits excluded
-		{	throw new DenoWorldException($err_msg, $err_code, $file, $line);
+		{	if ($err_code & self::$strict_levels)
+			{	throw new DenoWorldException($err_msg, $err_code, $file, $line);
+			}
+			if (!self::$report_warnings)
+			{	return false; // let the standard error handler print it
+			}
+			$call = end(self::$calls);
+			$call = $call===false ? [-1, ''] : [$call[0], rtrim(substr($call[1], 0, min(128, strcspn($call[1], '[{"'))))];
+			$data = json_encode([$err_code, $err_msg, $file, $line, $call[0], $call[1]], JSON_UNESCAPED_UNICODE|JSON_UNESCAPED_SLASHES|JSON_INVALID_UTF8_SUBSTITUTE);
+			$len = strlen($data);
+			$padding = (8 - ($len + 4)%8) % 8;
+			self::$warnings .= ($padding===0 ? pack("llN", -8-$len, self::RES_WARNING, 0) : pack("llNx{$padding}", -8-$len, self::RES_WARNING, 0)).$data;
 		}
 	}
 
@@ -338,7 +443,61 @@ class DenoWorldMain extends DenoWorld
 	}
 
 	public static function json_encode($value)
-	{	return json_encode($value, JSON_UNESCAPED_UNICODE|JSON_UNESCAPED_SLASHES);
+	{	$json = json_encode($value, JSON_UNESCAPED_UNICODE|JSON_UNESCAPED_SLASHES);
+		if ($json===false and json_last_error()==JSON_ERROR_UTF8)
+		{	// there're binary strings, so send them as separate records
+			$json = json_encode(self::serialize_bins($value), JSON_UNESCAPED_UNICODE|JSON_UNESCAPED_SLASHES|JSON_INVALID_UTF8_SUBSTITUTE);
+		}
+		return $json;
+	}
+
+	private static function serialize_bins($value)
+	{	if (is_string($value))
+		{	if (!preg_match('//u', $value))
+			{	return ['PHP_WORLD_BIN_ID' => self::add_bin_out($value)];
+			}
+		}
+		else if (is_array($value))
+		{	foreach ($value as $k => $v)
+			{	$value[$k] = self::serialize_bins($v);
+			}
+		}
+		else if (is_object($value))
+		{	if ($value instanceof JsonSerializable)
+			{	return self::serialize_bins($value->jsonSerialize());
+			}
+			$props = get_object_vars($value);
+			$value = new stdClass;
+			foreach ($props as $k => $v)
+			{	$value->$k = self::serialize_bins($v);
+			}
+		}
+		return $value;
+	}
+
+	private static function add_bin_out(string $value)
+	{	$bin_id = self::$bin_id_enum;
+		self::$bin_id_enum = (self::$bin_id_enum + 1) & 0x7FFF_FFFF;
+		$len = strlen($value);
+		$padding = (8 - ($len + 4)%8) % 8;
+		self::$bins_out .= ($padding===0 ? pack("llN", -8-$len, self::RES_BIN, $bin_id) : pack("llNx{$padding}", -8-$len, self::RES_BIN, $bin_id)).$value;
+		return $bin_id;
+	}
+
+	// Closes the output buffer opened by the last REC_CAPTURE_START, together with nested buffers that were not closed
+	private static function capture_end(bool $is_flush)
+	{	$level = array_pop(self::$capture_levels);
+		$output = '';
+		while ($level!==null and ob_get_level()>=$level)
+		{	$chunk = $is_flush ? ob_end_flush() : ob_get_clean();
+			if ($chunk === false)
+			{	break; // buffer is not removable
+			}
+			if (!$is_flush)
+			{	$output = $chunk.$output;
+			}
+		}
+		return $output;
 	}
 
 	public static function php_inst_destroyed($deno_inst_id)
@@ -362,27 +521,67 @@ class DenoWorldMain extends DenoWorld
 	}
 
 	private static function write_data($data)
-	{	if (strlen(self::$php_insts_destroyed))
+	{	if (strlen(self::$warnings))
+		{	$data = self::$warnings.$data;
+			self::$warnings = '';
+		}
+		if (strlen(self::$bins_out))
+		{	$data = self::$bins_out.$data;
+			self::$bins_out = '';
+		}
+		if (strlen(self::$php_insts_destroyed))
 		{	$data = self::$php_insts_destroyed.$data;
 			self::$php_insts_destroyed = '';
 		}
 		fwrite(self::$commands_io, $data);
 	}
 
+	private static function exception_to_array(Throwable $e, int $depth=0)
+	{	$previous = $e->getPrevious();
+		$classes = array_merge([get_class($e)], array_values(class_parents($e)));
+		$message = $e->getMessage();
+		if (self::$composer_autoload!=='' and ($e instanceof Error or $e instanceof ReflectionException) and preg_match('/\bclass "[^"]+" (?:not found|does not exist)/i', $message))
+		{	$message .= ". Composer autoloader (".self::$composer_autoload.") doesn't know this class. Check the namespace, or run \"composer dump-autoload\"";
+		}
+		return [$e->getFile(), $e->getLine(), $message, $e->getTraceAsString(), $classes, $e->getCode(), $previous && $depth<16 ? self::exception_to_array($previous, $depth+1) : null];
+	}
+
 	private static function write_exception(Throwable $e)
-	{	$data = self::json_encode([$e->getFile(), $e->getLine(), $e->getMessage(), $e->getTraceAsString()]);
+	{	$data = json_encode(self::exception_to_array($e), JSON_UNESCAPED_UNICODE|JSON_UNESCAPED_SLASHES|JSON_INVALID_UTF8_SUBSTITUTE);
 		$len = strlen($data);
 		$padding = (8 - ($len + 4)%8) % 8;
 		$data = $padding===0 ? pack("lll", -8-$len, self::RES_ERROR, 0).$data : pack("lllx{$padding}", -8-$len, self::RES_ERROR, 0).$data;
 		self::write_data($data);
 	}
 
+	public static function call_async(callable $func)
+	{	$is_async = self::$is_async;
+		self::$is_async = true;
+		try
+		{	return $func();
+		}
+		finally
+		{	self::$is_async = $is_async;
+		}
+	}
+
 	public static function write_read($type, $deno_inst_id, $data='')
-	{	$len = strlen($data);
+	{	$is_async = self::$is_async;
+		if ($is_async and ($type==self::RES_CALL or $type==self::RES_CLASS_CALL or $type==self::RES_CLASS_INVOKE or $type==self::RES_CLASSSTATIC_CALL))
+		{	$type |= self::RES_IS_ASYNC;
+		}
+		$is_async_record = ($type & self::RES_IS_ASYNC) != 0; // other records sent inside DenoWorld::async() return values as usual
+		$len = strlen($data);
 		$padding = (8 - ($len + 4)%8) % 8;
 		$data = $padding===0 ? pack("llN", -8-$len, $type, $deno_inst_id).$data : pack("llNx{$padding}", -8-$len, $type, $deno_inst_id).$data;
 		self::write_data($data);
-		$data = self::events_q();
+		self::$is_async = false; // records that deno sends while i'm waiting are not part of DenoWorld::async()
+		try
+		{	$data = self::events_q();
+		}
+		finally
+		{	self::$is_async = $is_async;
+		}
 		$pos = strpos($data, ' ');
 		$type = (int)substr($data, 0, $pos);
 		$data = substr($data, $pos+1);
@@ -393,7 +592,10 @@ class DenoWorldMain extends DenoWorld
 		{	return $data;
 		}
 		if ($type & self::RESTYPE_IS_JSON)
-		{	return json_decode($data, true);
+		{	return self::unserialize_insts(json_decode($data, true));
+		}
+		if ($is_async_record)
+		{	return new DenoWorldPromise((int)$data);
 		}
 		$class = "DenoWorld_$type";
 		return new $class((int)$data);
@@ -553,19 +755,40 @@ class DenoWorldMain extends DenoWorld
 				else if (($deno_inst_id = $value['DENO_WORLD_INST_ID'] ?? -1) >= 0)
 				{	return new DenoWorld($deno_inst_id);
 				}
+				else if (($bin_id = $value['DENO_WORLD_BIN_ID'] ?? -1) >= 0)
+				{	return self::unserialize_bin($bin_id);
+				}
+				else if (isset($value['DENO_WORLD_CODEC']))
+				{	return self::decode_codec($value['DENO_WORLD_CODEC']);
+				}
 			}
 			foreach ($value as $k => $v)
 			{	$value[$k] = self::unserialize_insts($v);
 			}
 		}
 		else if (is_object($value))
-		{	foreach ($value as $k => $v)
+		{	if (($bin_id = $value->DENO_WORLD_BIN_ID ?? -1)>=0 and count(get_object_vars($value))==1)
+			{	return self::unserialize_bin($bin_id);
+			}
+			if (isset($value->DENO_WORLD_CODEC) and count(get_object_vars($value))==1)
+			{	return self::decode_codec($value->DENO_WORLD_CODEC);
+			}
+			foreach ($value as $k => $v)
 			{	$value->$k = self::unserialize_insts($v);
 			}
 		}
 		return $value;
 	}
 
+	private static function unserialize_bin($bin_id)
+	{	if (!isset(self::$bins[$bin_id]))
+		{	throw new Exception("Binary string not received");
+		}
+		$value = self::$bins[$bin_id];
+		unset(self::$bins[$bin_id]);
+		return $value;
+	}
+
 	public static function serialize_insts($value)
 	{	if (is_array($value))
 		{	foreach ($value as $k => $v)
@@ -576,20 +799,133 @@ class DenoWorldMain extends DenoWorld
 		{	if ($value instanceof DenoWorld)
 			{	return ['DENO_WORLD_INST_ID' => $value->deno_inst_id];
 			}
+			if ($value instanceof Closure)
+			{	// deno will create function that calls this closure, and will free it (with REC_DESTRUCT) when the function is garbage collected
+				self::$php_insts[self::$php_inst_id_enum] = $value;
+				return ['PHP_WORLD_CALLABLE_ID' => self::$php_inst_id_enum++];
+			}
+			if (self::$use_codecs)
+			{	foreach (self::$codecs as $name => [$class_name, $encode])
+				{	if ($class_name!==null and $value instanceof $class_name)
+					{	return ['PHP_WORLD_CODEC' => [$name, self::serialize_insts($encode($value))]];
+					}
+				}
+			}
 			foreach ($value as $k => $v)
 			{	$value->$k = self::serialize_insts($v);
 			}
 		}
+		else if (is_int($value) and ($value>self::MAX_SAFE_INTEGER or $value<-self::MAX_SAFE_INTEGER) and self::$use_codecs)
+		{	return ['PHP_WORLD_CODEC' => ['BigInt', (string)$value]];
+		}
 		return $value;
 	}
 
+	// $class_name can be null for codecs that only convert values that deno sends
+	public static function register_codec(string $name, ?string $class_name, ?callable $encode, callable $decode)
+	{	unset(self::$codecs[$name]);
+		self::$codecs = [$name => [$class_name, $encode, $decode]] + self::$codecs; // the last registered is tried first
+	}
+
+	// Converts value, that deno codec encoded. If there's no such codec, returns the data as is.
+	private static function decode_codec($codec)
+	{	[$name, $data] = $codec;
+		$data = self::unserialize_insts($data);
+		$decode = self::$codecs[$name][2] ?? null;
+		return $decode ? $decode($data) : $data;
+	}
+
+	private static function register_builtin_codecs()
+	{	self::register_codec
+		(	'Date',
+			'DateTimeInterface',
+			function($value) {return $value->format('Y-m-d\TH:i:s.vP');},
+			function($data) {return new DateTimeImmutable($data);}
+		);
+		self::register_codec
+		(	'Map',
+			null,
+			null,
+			function($data)
+			{	$value = [];
+				foreach ($data as [$k, $v])
+				{	$value[$k] = $v;
+				}
+				return $value;
+			}
+		);
+		self::register_codec
+		(	'Set',
+			null,
+			null,
+			function($data) {return array_values((array)$data);}
+		);
+		self::register_codec
+		(	'BigInt',
+			'GMP',
+			function($value) {return gmp_strval($value);},
+			function($data)
+			{	$value = (int)$data;
+				return (string)$value===$data ? $value : (class_exists('GMP', false) ? gmp_init($data) : $data);
+			}
+		);
+		self::register_codec
+		(	'DateInterval',
+			'DateInterval',
+			function($value) {return [$value->y, $value->m, $value->d, $value->h, $value->i, $value->s, (int)round($value->f*1000000), $value->invert];},
+			function($data)
+			{	$value = new DateInterval('PT0S');
+				[$value->y, $value->m, $value->d, $value->h, $value->i, $value->s, $us, $value->invert] = $data;
+				$value->f = $us / 1000000;
+				return $value;
+			}
+		);
+	}
+
+	// Returns sorted list of classes, that composer autoloaders can load
+	private static function composer_classes()
+	{	$classes = [];
+		foreach (spl_autoload_functions() as $func)
+		{	if (!is_array($func) or !is_object($func[0]) or get_class($func[0])!='Composer\\Autoload\\ClassLoader')
+			{	continue;
+			}
+			self::composer_loader_classes($func[0], $classes);
+		}
+		ksort($classes);
+		return array_keys($classes);
+	}
+
+	// Adds to $classes (as keys) classes, that the composer $loader can load: classes from the class map, and classes found in PSR-4 directories.
+	// Also used by generate_dts().
+	public static function composer_loader_classes($loader, array &$classes)
+	{	foreach ($loader->getClassMap() as $class_name => $_)
+		{	$classes[$class_name] = true;
+		}
+		foreach ($loader->getPrefixesPsr4() as $prefix => $dirs)
+		{	foreach ($dirs as $dir)
+			{	$dir = rtrim($dir, '/\\');
+				if (!is_dir($dir))
+				{	continue;
+				}
+				foreach (new RecursiveIteratorIterator(new RecursiveDirectoryIterator($dir, FilesystemIterator::SKIP_DOTS)) as $file)
+				{	if ($file->getExtension() == 'php')
+					{	$class_name = $prefix.str_replace(DIRECTORY_SEPARATOR, '\\', substr($file->getPathname(), strlen($dir)+1, -4));
+						if (preg_match('/^[A-Za-z_][\w\\\\]*$/', $class_name))
+						{	$classes[$class_name] = true;
+						}
+					}
+				}
+			}
+		}
+	}
+
 	private static function create_iterator($obj)
 	{	foreach ($obj as $value)
 		{	yield $value;
 		}
 	}
 
-	private static function iterate_begin($php_inst_id)
+	private static function iterate_begin($php_inst_id, int $n)
 	{	if (!isset(self::$php_insts[$php_inst_id]))
 		{	throw new Exception("Object destroyed");
 		}
@@ -597,67 +933,123 @@ class DenoWorldMain extends DenoWorld
 		if (!($obj instanceof Traversable))
 		{	throw new Exception("Object is not iterable");
 		}
-		$iter = self::create_iterator($obj);
-		if (!$iter->valid())
-		{	return [null, true];
-		}
-		self::$php_insts_iters[$php_inst_id] = $iter;
-		$value = $iter->current();
-		$iter->next();
-		return [$value, false];
+		// generators are used directly, so values can be sent to them
+		self::$php_insts_iters[$php_inst_id] = [$obj instanceof Generator ? $obj : self::create_iterator($obj), false, null];
+		return self::iterate($php_inst_id, $n);
 	}
 
-	private static function iterate($php_inst_id)
-	{	$iter = self::$php_insts_iters[$php_inst_id] ?? null;
-		if (!$iter)
+	// Returns [$values, $done, $return_value], where $values are up to $n next values.
+	// The iterator is not advanced past the last returned value, so the next value sent to a generator (with $op 'send') will be the result of the last yield.
+	private static function iterate($php_inst_id, int $n, string $op='next', $arg=null)
+	{	if (!isset(self::$php_insts_iters[$php_inst_id]))
 		{	throw new Exception("Object destroyed");
 		}
-		if (!$iter->valid())
+		[$iter, $is_started, $pending_error] = self::$php_insts_iters[$php_inst_id];
+		if ($pending_error)
 		{	unset(self::$php_insts_iters[$php_inst_id]);
-			return [null, true];
+			throw $pending_error;
+		}
+		$values = [];
+		try
+		{	for ($i=0; $i<$n; $i++)
+			{	if ($i==0 and $op=='throw')
+				{	$iter->throw(new Exception($arg));
+				}
+				else if ($is_started)
+				{	if ($i==0 and $op=='send')
+					{	$iter->send($arg);
+					}
+					else
+					{	$iter->next();
+					}
+				}
+				$is_started = true;
+				if (!$iter->valid())
+				{	unset(self::$php_insts_iters[$php_inst_id]);
+					return [$values, true, $iter instanceof Generator ? $iter->getReturn() : null];
+				}
+				$values[] = $iter->current();
+			}
+		}
+		catch (Throwable $e)
+		{	if (!$values)
+			{	unset(self::$php_insts_iters[$php_inst_id]);
+				throw $e;
+			}
+			// return the values that were taken, and throw the error on the next call
+			self::$php_insts_iters[$php_inst_id] = [$iter, true, $e];
+			return [$values, false, null];
+		}
+		self::$php_insts_iters[$php_inst_id] = [$iter, true, null];
+		return [$values, false, null];
+	}
+
+	// Stops the iteration early, like JS iterator return().
+	// A generator that is still referenced elsewhere would not be destroyed, so it's resumed by throwing an internal exception from its current yield, and its finally blocks run.
+	private static function iterate_end($php_inst_id)
+	{	if (isset(self::$php_insts_iters[$php_inst_id]))
+		{	$iter = self::$php_insts_iters[$php_inst_id][0];
+			unset(self::$php_insts_iters[$php_inst_id]);
+			if ($iter instanceof Generator and $iter->valid())
+			{	$return = new class extends Error {};
+				try
+				{	$iter->throw($return);
+				}
+				catch (Throwable $e)
+				{	if ($e !== $return)
+					{	throw $e;
+					}
+				}
+			}
 		}
-		$value = $iter->current();
-		$iter->next();
-		return [$value, false];
 	}
 
 	private static function events_q(bool $can_eof=false)
-	{	while (true)
-		{	if (feof(self::$commands_io))
+	{	$depth = count(self::$calls);
+		while (true)
+		{	$batch_record = empty(self::$batches[$depth]) ? null : array_shift(self::$batches[$depth]);
+			if ($batch_record===null and feof(self::$commands_io))
 			{	if ($can_eof)
 				{	break;
 				}
 				throw new Exception("Connection closed");
 			}
 			try
-			{	// 1. Read the request
-				$len = fread(self::$commands_io, 8);
-				if (strlen($len) != 8)
-				{	if ($len===false or strlen($len)==0 or $len=="\n" or $len=="\r" or $len=="\r\n")
-					{	continue;
-					}
-					return; // Fatal error
+			{	// 1. Read the request (or take the next record of the batch)
+				if ($batch_record !== null)
+				{	list($record_type, $data) = $batch_record;
 				}
-				list('T' => $record_type, 'L' => $len) = unpack('NT/NL', $len);
-				$padding = (8 - $len%8) % 8;
-				$len += $padding;
-				$data = '';
-				while ($len > 0)
-				{	$read = fread(self::$commands_io, $len);
-					$len -= strlen($read);
-					if ($len >= $padding)
-					{	$data .= $read;
+				else
+				{	$len = fread(self::$commands_io, 8);
+					if (strlen($len) != 8)
+					{	if ($len===false or strlen($len)==0 or $len=="\n" or $len=="\r" or $len=="\r\n")
+						{	continue;
+						}
+						return; // Fatal error
 					}
-					else
-					{	$data .= substr($read, 0, $len-$padding);
+					list('T' => $record_type, 'L' => $len) = unpack('NT/NL', $len);
+					$padding = (8 - $len%8) % 8;
+					$len += $padding;
+					$data = '';
+					while ($len > 0)
+					{	$read = fread(self::$commands_io, $len);
+						$len -= strlen($read);
+						if ($len >= $padding)
+						{	$data .= $read;
+						}
+						else
+						{	$data .= substr($read, 0, $len-$padding);
+						}
 					}
 				}
 
 				// 2. Process the request
 				$result = null;
 				$result_is_set = false;
+				self::$calls[$depth] = [$record_type, $data];
 				switch ($record_type)
 				{	case self::REC_DATA:
+						array_splice(self::$calls, $depth);
 						return $data;
 					case self::REC_CONST:
 						if (defined($data))
@@ -775,8 +1167,10 @@ class DenoWorldMain extends DenoWorld
 						$result_is_set = true;
 						break;
 					case self::REC_DESTRUCT:
-						unset(self::$php_insts[$data]);
-						unset(self::$php_insts_iters[$data]);
+						foreach (explode(' ', $data) as $php_inst_id) // can be several space-separated ids
+						{	unset(self::$php_insts[$php_inst_id]);
+							unset(self::$php_insts_iters[$php_inst_id]);
+						}
 						continue 2;
 					case self::REC_CLASS_GET:
 						$data = self::decode_ident_ident_value($data, $php_inst_id, $prop_name);
@@ -860,11 +1254,30 @@ class DenoWorldMain extends DenoWorld
 						$result_is_set = true;
 						break;
 					case self::REC_CLASS_ITERATE_BEGIN:
-						$result = self::iterate_begin($data);
+						$n = self::decode_ident_value($data, $php_inst_id);
+						$result = self::iterate_begin($php_inst_id, $n ?? 1);
 						$result_is_set = true;
 						break;
 					case self::REC_CLASS_ITERATE:
-						$result = self::iterate($data);
+						$n = self::decode_ident_value($data, $php_inst_id);
+						$result = self::iterate($php_inst_id, $n ?? 1);
+						$result_is_set = true;
+						break;
+					case self::REC_CLASS_ITERATE_SEND:
+						$data = self::decode_ident_value($data, $php_inst_id);
+						$result = self::iterate($php_inst_id, 1, 'send', self::unserialize_insts($data));
+						$result_is_set = true;
+						break;
+					case self::REC_CLASS_ITERATE_THROW:
+						$data = self::decode_ident_value($data, $php_inst_id);
+						$result = self::iterate($php_inst_id, 1, 'throw', $data);
+						$result_is_set = true;
+						break;
+					case self::REC_CLASS_ITERATE_END:
+						self::iterate_end($data);
+						break;
+					case self::REC_COMPOSER_CLASSES:
+						$result = self::composer_classes();
 						$result_is_set = true;
 						break;
 					case self::REC_N_OBJECTS:
@@ -927,13 +1340,39 @@ class DenoWorldMain extends DenoWorld
 						$result = require_once(self::unserialize_insts($data));
 						$result_is_set = true;
 						break;
+					case self::REC_CAPTURE_START:
+						ob_start();
+						self::$capture_levels[] = ob_get_level();
+						break;
+					case self::REC_CAPTURE_END:
+						$result = self::capture_end($data==='flush');
+						if ($data !== 'flush')
+						{	$result = self::add_bin_out($result);
+							$result_is_set = true;
+						}
+						break;
+					case self::REC_BATCH:
+						$records = [];
+						for ($pos=0, $end=strlen($data); $pos+8<=$end; $pos+=8+$len+(8 - $len%8)%8)
+						{	list('T' => $record_type, 'L' => $len) = unpack('NT/NL', $data, $pos);
+							$records[] = [$record_type, substr($data, $pos+8, $len)];
+						}
+						self::$batches[$depth] = $records;
+						continue 2;
+					case self::REC_BIN:
+						$pos = strpos($data, ' ');
+						self::$bins[(int)substr($data, 0, $pos)] = substr($data, $pos+1);
+						continue 2;
 				}
+				self::$bins = [];
 
 				// 3. Send the result
 				self::write_result($result, $result_is_set);
 			}
 			catch (Throwable $e)
 			{	// 4. Error: send the exception
+				self::$bins = [];
+				unset(self::$batches[$depth]); // skip the rest of the batch
 				self::write_exception($e);
 			}
 			fflush(self::$commands_io);
@@ -954,11 +1393,16 @@ class DenoWorldMain extends DenoWorld
 		// Register class loader
 		spl_autoload_register('DenoWorldMain::load_class');
 
-		// Read HELO, that is [key, end_mark, socket_name, init_php_file], and output the key back
+		// Read HELO, that is [key, end_mark, socket_name, init_php_file, options], and output the key back
 		$data = explode(' ', php_sapi_name()=='cli' ? file_get_contents('php://stdin') : $_SERVER['DENO_WORLD_HELO'] ?? '');
-		if (count($data) != 4)
+		if (count($data) < 4)
 		{	return;
 		}
+		$options = isset($data[4]) ? json_decode(base64_decode($data[4]), true) : [];
+		self::$strict_levels = $options['strict_levels'] ?? -1;
+		self::$report_warnings = $options['report_warnings'] ?? false;
+		self::$use_codecs = $options['codecs'] ?? false;
+		self::register_builtin_codecs();
 		unset($_SERVER['DENO_WORLD_HELO']);
 		$commands_io = stream_socket_client(base64_decode($data[2]), $errno, $errstr);
 		if ($commands_io === false)
@@ -969,6 +1413,23 @@ class DenoWorldMain extends DenoWorld
 		stream_set_timeout($commands_io, 0x7FFF_FFFF);
 		self::$end_mark = base64_decode($data[1]);
 		self::write_result($data[0], true);
+		if (!empty($options['cwd']) and !@chdir($options['cwd']))
+		{	error_log("Failed to chdir to settings.cwd: {$options['cwd']}");
+		}
+		if (!empty($options['composer_autoload']))
+		{	$value = $options['composer_autoload'];
+			try
+			{	if (!is_file($value))
+				{	throw new Exception("Composer autoloader not found: $value (see settings.composer)");
+				}
+				require_once $value;
+				self::$composer_autoload = $value;
+				self::write_result(null, true);
+			}
+			catch (Throwable $e)
+			{	self::write_exception($e);
+			}
+		}
 		if (strlen($data[3]) != 0)
 		{	$value = base64_decode($data[3]);
 			$_SERVER['SCRIPT_FILENAME'] = $value;
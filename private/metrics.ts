@@ -0,0 +1,203 @@
+/**	Upper bounds of histogram buckets, in milliseconds.
+ **/
+const LATENCY_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface PhpHistogramSnapshot
+{	/**	Upper bounds of buckets in milliseconds (the last, infinite bucket is not included).
+	 **/
+	buckets: number[];
+
+	/**	Number of observations in each bucket (non-cumulative), plus one more number for observations greater than the last bound.
+	 **/
+	counts: number[];
+
+	/**	Sum of all observations in milliseconds.
+	 **/
+	sum: number;
+
+	/**	Number of observations.
+	 **/
+	count: number;
+}
+
+export interface PhpMetricsSnapshot
+{	/**	Number of records sent to PHP, by record type (like `CALL`, `CLASS_GET` or `CALL_EVAL`). Replies to PHP requests are not counted here.
+	 **/
+	calls: Record<string, number>;
+
+	/**	Number of requests from PHP to Deno, by record type (like `CLASS_CALL` or `GET_CLASS`).
+	 **/
+	callbacks: Record<string, number>;
+
+	bytes_written: number;
+	bytes_read: number;
+
+	/**	Time from sending a request to PHP till receiving it's result.
+	 **/
+	latency: PhpHistogramSnapshot;
+
+	/**	Time it took to spawn PHP-CLI process (or to connect to PHP-FPM service) and to initialize the interpreter script.
+	 **/
+	spawn_time: PhpHistogramSnapshot;
+
+	spawns: number;
+
+	/**	Spawns of an interpreter that already run before (after `exit()`, crash or abort).
+	 **/
+	respawns: number;
+
+	/**	Failed attempts to connect to PHP-FPM backends.
+	 **/
+	php_fpm_connect_failures: number;
+}
+
+class Histogram
+{	counts = new Array<number>(LATENCY_BUCKETS.length + 1).fill(0);
+	sum = 0;
+	count = 0;
+
+	observe(value: number)
+	{	let i = 0;
+		while (i<LATENCY_BUCKETS.length && value>LATENCY_BUCKETS[i])
+		{	i++;
+		}
+		this.counts[i]++;
+		this.sum += value;
+		this.count++;
+	}
+
+	snapshot(): PhpHistogramSnapshot
+	{	return {buckets: LATENCY_BUCKETS.slice(), counts: this.counts.slice(), sum: this.sum, count: this.count};
+	}
+}
+
+/**	Counters of one interpreter (`php.metrics`), or of all the interpreters together (`global_metrics`).
+	Each interpreter adds it's counts also to `global_metrics`.
+ **/
+export class PhpMetrics
+{	#calls = new Map<string, number>;
+	#callbacks = new Map<string, number>;
+	#bytes_written = 0;
+	#bytes_read = 0;
+	#latency = new Histogram;
+	#spawn_time = new Histogram;
+	#spawns = 0;
+	#respawns = 0;
+	#php_fpm_connect_failures = 0;
+	#parent: PhpMetrics|undefined;
+
+	constructor(parent?: PhpMetrics)
+	{	this.#parent = parent;
+	}
+
+	/**	@internal
+	 **/
+	add_call(type: string)
+	{	this.#calls.set(type, (this.#calls.get(type) ?? 0) + 1);
+		this.#parent?.add_call(type);
+	}
+
+	/**	@internal
+	 **/
+	add_callback(type: string)
+	{	this.#callbacks.set(type, (this.#callbacks.get(type) ?? 0) + 1);
+		this.#parent?.add_callback(type);
+	}
+
+	/**	@internal
+	 **/
+	add_bytes(written: number, read: number)
+	{	this.#bytes_written += written;
+		this.#bytes_read += read;
+		this.#parent?.add_bytes(written, read);
+	}
+
+	/**	@internal
+	 **/
+	add_latency(ms: number)
+	{	this.#latency.observe(ms);
+		this.#parent?.add_latency(ms);
+	}
+
+	/**	@internal
+	 **/
+	add_spawn(ms: number, is_respawn: boolean)
+	{	this.#spawn_time.observe(ms);
+		this.#spawns++;
+		if (is_respawn)
+		{	this.#respawns++;
+		}
+		this.#parent?.add_spawn(ms, is_respawn);
+	}
+
+	/**	@internal
+	 **/
+	add_php_fpm_connect_failure()
+	{	this.#php_fpm_connect_failures++;
+		this.#parent?.add_php_fpm_connect_failure();
+	}
+
+	/**	Returns copy of current counters.
+	 **/
+	snapshot(): PhpMetricsSnapshot
+	{	return {
+			calls: Object.fromEntries(this.#calls),
+			callbacks: Object.fromEntries(this.#callbacks),
+			bytes_written: this.#bytes_written,
+			bytes_read: this.#bytes_read,
+			latency: this.#latency.snapshot(),
+			spawn_time: this.#spawn_time.snapshot(),
+			spawns: this.#spawns,
+			respawns: this.#respawns,
+			php_fpm_connect_failures: this.#php_fpm_connect_failures,
+		};
+	}
+
+	/**	Returns the counters in Prometheus text exposition format.
+		Metric names start with `prefix`, and `labels` are added to each metric (like `{interpreter: 'main'}`).
+		Durations are reported in seconds, as Prometheus recommends.
+	 **/
+	to_prometheus(prefix='php_world', labels: Record<string, string>={})
+	{	const lines = new Array<string>;
+		const base_labels = Object.entries(labels).map(([k, v]) => `${k}="${escape_label(v)}"`);
+		const fmt_labels = (extra: string[]=[]) =>
+		{	const all = [...base_labels, ...extra];
+			return all.length ? '{'+all.join(',')+'}' : '';
+		};
+		const counter = (name: string, help: string, values: Array<[string[], number]>) =>
+		{	lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} counter`);
+			for (const [extra, value] of values)
+			{	lines.push(`${prefix}_${name}${fmt_labels(extra)} ${value}`);
+			}
+		};
+		const histogram = (name: string, help: string, h: Histogram) =>
+		{	lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} histogram`);
+			let cumulative = 0;
+			for (let i=0; i<LATENCY_BUCKETS.length; i++)
+			{	cumulative += h.counts[i];
+				lines.push(`${prefix}_${name}_bucket${fmt_labels([`le="${LATENCY_BUCKETS[i]/1000}"`])} ${cumulative}`);
+			}
+			lines.push(`${prefix}_${name}_bucket${fmt_labels(['le="+Inf"'])} ${h.count}`);
+			lines.push(`${prefix}_${name}_sum${fmt_labels()} ${h.sum/1000}`);
+			lines.push(`${prefix}_${name}_count${fmt_labels()} ${h.count}`);
+		};
+		counter('calls_total', 'Records sent to PHP, by record type.', [...this.#calls].map(([type, n]) => [[`type="${escape_label(type)}"`], n]));
+		counter('callbacks_total', 'Requests from PHP to Deno, by record type.', [...this.#callbacks].map(([type, n]) => [[`type="${escape_label(type)}"`], n]));
+		counter('bytes_written_total', 'Bytes sent to PHP.', [[[], this.#bytes_written]]);
+		counter('bytes_read_total', 'Bytes received from PHP.', [[[], this.#bytes_read]]);
+		histogram('call_duration_seconds', 'Time from sending a request to PHP till receiving it\'s result.', this.#latency);
+		histogram('spawn_duration_seconds', 'Time to start PHP interpreter.', this.#spawn_time);
+		counter('spawns_total', 'PHP interpreters started.', [[[], this.#spawns]]);
+		counter('respawns_total', 'PHP interpreters started again after exit.', [[[], this.#respawns]]);
+		counter('php_fpm_connect_failures_total', 'Failed attempts to connect to PHP-FPM backends.', [[[], this.#php_fpm_connect_failures]]);
+		return lines.join('\n')+'\n';
+	}
+}
+
+function escape_label(value: string)
+{	return value.replace(/[\\"\n]/g, c => c=='\n' ? '\\n' : '\\'+c);
+}
+
+/**	Counters of all the interpreters together.
+ **/
+export const global_metrics = new PhpMetrics;
@@ -0,0 +1,167 @@
+const DEFAULT_PORT = 9000;
+
+/**	PHP-FPM service address, together with it's relative weight.
+ **/
+export interface PhpFpmBackend
+{	/**	Like `localhost:9000` or `/run/php/php-fpm.sock`.
+	 **/
+	listen: string;
+
+	/**	Backends with higher weight receive proportionally more requests. Default: 1.
+	 **/
+	weight?: number;
+}
+
+/**	One PHP-FPM service address, or list of backends to balance between.
+ **/
+export type PhpFpmListen = string | Array<string|PhpFpmBackend>;
+
+interface BackendState
+{	listen: string;
+	weight: number;
+	current_weight: number;
+	failed_until: number; // while now < failed_until the backend is considered down, and after this time it needs to be probed before use
+	is_failed: boolean;
+}
+
+const backends_cache = new Map<string, PhpFpmBackends>;
+
+/**	Returns balancer for the given `listen` setting.
+	The same object is returned for equal settings, so all the interpreters that use the same backends share their health state.
+ **/
+export function get_php_fpm_backends(listen: PhpFpmListen)
+{	const key = typeof(listen)=='string' ? listen : JSON.stringify(listen);
+	let backends = backends_cache.get(key);
+	if (!backends)
+	{	backends = new PhpFpmBackends(listen);
+		backends_cache.set(key, backends);
+	}
+	return backends;
+}
+
+/**	Weighted round-robin between PHP-FPM backends, that skips backends that recently failed to connect.
+ **/
+export class PhpFpmBackends
+{	#backends: BackendState[];
+
+	constructor(listen: PhpFpmListen)
+	{	const list = typeof(listen)=='string' ? [listen] : listen;
+		this.#backends = list.map
+		(	b =>
+			{	const {listen, weight=1} = typeof(b)=='string' ? {listen: b} : b;
+				return {listen, weight: Math.max(0, weight), current_weight: 0, failed_until: 0, is_failed: false};
+			}
+		).filter(b => b.listen && b.weight>0);
+	}
+
+	get size()
+	{	return this.#backends.length;
+	}
+
+	/**	Picks next backend, skipping the ones in `exclude`.
+		Backends that failed less than `fail_timeout` ms ago are skipped (unless all the backends failed).
+		Backends that failed earlier are probed by connecting to them, before they're returned.
+		Returns undefined if there're no more backends to try.
+	 **/
+	async pick(exclude: Set<string>, fail_timeout: number, connect_timeout: number): Promise<string|undefined>
+	{	exclude = new Set(exclude);
+		while (true)
+		{	const now = Date.now();
+			let candidates = this.#backends.filter(b => !exclude.has(b.listen) && b.failed_until<=now);
+			if (candidates.length == 0)
+			{	candidates = this.#backends.filter(b => !exclude.has(b.listen)); // all failed recently, so try them anyway
+				if (candidates.length == 0)
+				{	return;
+				}
+			}
+			// Smooth weighted round-robin
+			let total = 0;
+			let best: BackendState | undefined;
+			for (const b of candidates)
+			{	b.current_weight += b.weight;
+				total += b.weight;
+				if (!best || b.current_weight>best.current_weight)
+				{	best = b;
+				}
+			}
+			best = best!;
+			best.current_weight -= total;
+			if (best.is_failed && best.failed_until<=now)
+			{	// Health check
+				if (!await probe(best.listen, connect_timeout))
+				{	this.mark_failed(best.listen, fail_timeout);
+					exclude.add(best.listen);
+					continue;
+				}
+				this.mark_ok(best.listen);
+			}
+			return best.listen;
+		}
+	}
+
+	mark_failed(listen: string, fail_timeout: number)
+	{	for (const b of this.#backends)
+		{	if (b.listen == listen)
+			{	b.is_failed = true;
+				b.failed_until = Date.now() + fail_timeout;
+			}
+		}
+	}
+
+	mark_ok(listen: string)
+	{	for (const b of this.#backends)
+		{	if (b.listen == listen)
+			{	b.is_failed = false;
+				b.failed_until = 0;
+			}
+		}
+	}
+}
+
+/**	Is this an error that happened while connecting to a backend (so the request can be retried on another backend).
+ **/
+export function is_connect_error(error: unknown)
+{	return error instanceof Deno.errors.ConnectionRefused ||
+		error instanceof Deno.errors.NotFound ||
+		error instanceof Deno.errors.TimedOut ||
+		error instanceof Deno.errors.AddrNotAvailable;
+}
+
+/**	Lightweight health check: tries to connect to the backend, and closes the connection.
+ **/
+async function probe(listen: string, connect_timeout: number)
+{	let timer;
+	const options = parse_listen(listen);
+	const connecting: Promise<Deno.Conn> = options.transport=='unix' ? Deno.connect(options) : Deno.connect(options);
+	try
+	{	const conn = await Promise.race
+		(	[	connecting,
+				new Promise<undefined>(y => {timer = setTimeout(() => y(undefined), connect_timeout)}),
+			]
+		);
+		if (!conn)
+		{	connecting.then(c => c.close()).catch(() => {});
+			return false;
+		}
+		conn.close();
+		return true;
+	}
+	catch
+	{	return false;
+	}
+	finally
+	{	clearTimeout(timer);
+	}
+}
+
+function parse_listen(listen: string): Deno.ConnectOptions | Deno.UnixConnectOptions
+{	if (listen.indexOf('/') != -1)
+	{	return {transport: 'unix', path: listen};
+	}
+	const pos = listen.lastIndexOf(':');
+	if (pos==-1 || listen.indexOf(']')>pos)
+	{	const port = Number(listen);
+		return port ? {hostname: 'localhost', port} : {hostname: listen.replace(/^\[|\]$/g, ''), port: DEFAULT_PORT};
+	}
+	return {hostname: listen.slice(0, pos).replace(/^\[|\]$/g, ''), port: Number(listen.slice(pos+1))};
+}
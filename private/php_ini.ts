@@ -0,0 +1,93 @@
+/**	Value of php.ini directive. Booleans become `1` and `0`.
+ **/
+export type PhpIniValue = string | number | boolean;
+
+const RE_INI_NAME = /^[A-Za-z_][\w.\-]*$/;
+
+/**	Throws error if the ini directives, extensions or include path can not be passed to PHP.
+	PHP-FPM loads extensions only from the pool configuration, so for PHP-FPM `extensions` must be empty.
+ **/
+export function validate_ini(ini: Record<string, PhpIniValue>, ini_admin: Record<string, PhpIniValue>, extensions: string[], include_path: string|string[], is_php_fpm: boolean)
+{	if (is_php_fpm && extensions.length)
+	{	throw new Error(`settings.extensions are only supported for PHP-CLI. For PHP-FPM, load extensions in the pool configuration`);
+	}
+	validate_directives(ini, 'settings.ini');
+	validate_directives(ini_admin, 'settings.ini_admin');
+	for (const extension of extensions)
+	{	if (!extension)
+		{	throw new Error(`Empty extension name in settings.extensions`);
+		}
+		check_value(extension, 'settings.extensions');
+	}
+	for (const path of typeof(include_path)=='string' ? [include_path] : include_path)
+	{	check_value(path, 'settings.include_path');
+	}
+}
+
+function validate_directives(ini: Record<string, PhpIniValue>, setting_name: string)
+{	for (const [name, value] of Object.entries(ini))
+	{	if (!RE_INI_NAME.test(name))
+		{	throw new Error(`Invalid php.ini directive name in ${setting_name}: "${name}"`);
+		}
+		if (name=='extension' || name=='zend_extension')
+		{	throw new Error(`Use settings.extensions to load extensions, not ${setting_name}["${name}"]`);
+		}
+		if (name == 'include_path')
+		{	throw new Error(`Use settings.include_path, not ${setting_name}["include_path"]`);
+		}
+		if (typeof(value)!='string' && typeof(value)!='number' && typeof(value)!='boolean' || typeof(value)=='number' && !isFinite(value))
+		{	throw new Error(`Invalid value of ${setting_name}["${name}"]`);
+		}
+		check_value(value+'', `${setting_name}["${name}"]`);
+	}
+}
+
+/**	Returns `-d` command-line arguments for PHP-CLI.
+	PHP-CLI has no distinction for admin directives, so `ini_admin` is passed the same way as `ini`.
+ **/
+export function get_ini_args(ini: Record<string, PhpIniValue>, ini_admin: Record<string, PhpIniValue>, extensions: string[], include_path: string|string[])
+{	const args = new Array<string>;
+	for (const extension of extensions)
+	{	args.push('-d', 'extension='+extension);
+	}
+	for (const [name, value] of [...get_ini_entries(ini, include_path), ...get_ini_entries(ini_admin, '')])
+	{	args.push('-d', name+'='+value);
+	}
+	return args;
+}
+
+/**	Returns `PHP_VALUE` and `PHP_ADMIN_VALUE` FastCGI params for PHP-FPM (the ones that are not empty).
+ **/
+export function get_ini_params(ini: Record<string, PhpIniValue>, ini_admin: Record<string, PhpIniValue>, include_path: string|string[])
+{	const params = new Map<string, string>;
+	const php_value = get_ini_entries(ini, include_path).map(([name, value]) => name+'='+quote(value)).join('\n');
+	if (php_value)
+	{	params.set('PHP_VALUE', php_value);
+	}
+	const php_admin_value = get_ini_entries(ini_admin, '').map(([name, value]) => name+'='+quote(value)).join('\n');
+	if (php_admin_value)
+	{	params.set('PHP_ADMIN_VALUE', php_admin_value);
+	}
+	return params;
+}
+
+function get_ini_entries(ini: Record<string, PhpIniValue>, include_path: string|string[])
+{	const entries = Object.entries(ini).map(([name, value]) => [name, typeof(value)=='boolean' ? (value ? '1' : '0') : value+'']);
+	const path = typeof(include_path)=='string' ? include_path : include_path.join(Deno.build.os=='windows' ? ';' : ':');
+	if (path)
+	{	entries.push(['include_path', path]);
+	}
+	return entries;
+}
+
+function check_value(value: string, setting_name: string)
+{	if (/[\r\n\0]/.test(value))
+	{	throw new Error(`Value of ${setting_name} must not contain line breaks or NUL characters`);
+	}
+}
+
+/**	In `PHP_VALUE`, values are parsed by php.ini parser, so quote them if they contain special characters.
+ **/
+function quote(value: string)
+{	return /^[\w.\-\/:]*$/.test(value) ? value : '"'+value.replace(/["\\$]/g, c => '\\'+c)+'"';
+}
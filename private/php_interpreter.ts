@@ -3,8 +3,13 @@ import {PHP_BOOT_CLI, get_interpreter_script_filename} from './interpreter_scrip
 import {create_proxy} from './proxy_object.ts';
 import {ReaderMux} from './reader_mux.ts';
 import {WrStream, fcgi, ResponseWithCookies} from './deps.ts';
-import {InterpreterError, InterpreterExitError} from './errors.ts';
-import {PhpSettings, PhpSettingsInit} from './php_settings.ts';
+import {InterpreterExitError, InterpreterAbortError, InterpreterTimeoutError, InterpreterError, create_interpreter_error} from './errors.ts';
+import {PhpSettings, PhpSettingsInit, PhpWarning, PhpTraceRecord} from './php_settings.ts';
+import {check_deno_access, check_deno_member, get_known_deno_path, join_deno_path} from './deno_access.ts';
+import {get_php_fpm_backends, is_connect_error} from './php_fpm_backends.ts';
+import {PhpMetrics, global_metrics} from './metrics.ts';
+import {find_codec, decode_codec} from './codecs.ts';
+import {validate_ini, get_ini_args, get_ini_params} from './php_ini.ts';
 
 // deno-lint-ignore no-explicit-any
 type Any = any;
@@ -16,7 +21,49 @@ const BUFFER_LEN = 8*1024; // so small packets will not need allocation
 
 debug_assert(BUFFER_LEN>=8 && BUFFER_LEN>=KEY_LEN+READER_MUX_END_MARK_LEN);
 
-const enum REC
+export interface CallOptions
+{	/**	Timeout in milliseconds for each remote operation. Overrides `settings.call_timeout`. 0 means no timeout.
+	 **/
+	timeout?: number;
+
+	/**	Signal that aborts remote operations.
+	 **/
+	signal?: AbortSignal;
+}
+
+export interface CaptureResult<T>
+{	/**	What the callback returned (awaited).
+	 **/
+	result: T;
+
+	/**	Bytes that PHP printed (with `echo`, `print`, `printf()`, etc.) during the captured operations.
+	 **/
+	output: Uint8Array;
+}
+
+/**	Handle to remote PHP object, tracked with `FinalizationRegistry` (see `settings.auto_release` and `settings.warn_leaked_handles`).
+ **/
+interface HandleInfo
+{	php_inst_id: number;
+	class_name: string;
+	generation: number;
+	auto_release: boolean;
+	stack: string;
+}
+
+/**	Operation queued during `php.batch()`.
+ **/
+interface BatchItem
+{	record_type: number;
+	str: string;
+	bins: Map<number, Uint8Array> | undefined;
+	has_reply: boolean;
+	for_stack: Error | undefined;
+	y: (value: Any) => void;
+	n: (error: Error) => void;
+}
+
+enum REC
 {	DATA,
 	CONST,
 	GET,
@@ -60,9 +107,17 @@ const enum REC
 	CALL_INCLUDE_ONCE,
 	CALL_REQUIRE,
 	CALL_REQUIRE_ONCE,
+	BIN,
+	CAPTURE_START,
+	CAPTURE_END,
+	BATCH,
+	CLASS_ITERATE_SEND,
+	CLASS_ITERATE_THROW,
+	CLASS_ITERATE_END,
+	COMPOSER_CLASSES,
 }
 
-const enum RES
+enum RES
 {	ERROR = 1,
 	GET_CLASS,
 	CONSTRUCT,
@@ -79,8 +134,15 @@ const enum RES
 	CLASSSTATIC_CALL,
 	CALL,
 	JSON_ENCODE,
+	BIN,
+	WARNING,
+	AWAIT,
 }
 
+/**	PHP adds this flag to RES.CALL and similar inside `DenoWorld::async()`, and then i don't await the result, but return the promise.
+ **/
+const RES_IS_ASYNC = 0x100;
+
 const enum RESTYPE
 {	HAS_ITERATOR = 1,
 	HAS_LENGTH = 2,
@@ -90,10 +152,35 @@ const enum RESTYPE
 	IS_ERROR = 32,
 }
 
+const PHP_ERROR_LEVEL_NAMES = new Map
+(	[	[1, 'E_ERROR'],
+		[2, 'E_WARNING'],
+		[4, 'E_PARSE'],
+		[8, 'E_NOTICE'],
+		[16, 'E_CORE_ERROR'],
+		[32, 'E_CORE_WARNING'],
+		[64, 'E_COMPILE_ERROR'],
+		[128, 'E_COMPILE_WARNING'],
+		[256, 'E_USER_ERROR'],
+		[512, 'E_USER_WARNING'],
+		[1024, 'E_USER_NOTICE'],
+		[2048, 'E_STRICT'],
+		[4096, 'E_RECOVERABLE_ERROR'],
+		[8192, 'E_DEPRECATED'],
+		[16384, 'E_USER_DEPRECATED'],
+	]
+);
+
 const RE_BAD_CLASSNAME_FOR_EVAL = /[^\w\\]/;
+const RE_BIN_MARKER = /\{"DENO_WORLD_BIN_ID":(\d+)\}/g;
 
 const symbol_php_object = Symbol('php_object');
 
+/**	Interpreters where an operation failed not because of PHP exception (so the interpreter can be in broken state).
+	`PhpInterpreterPool` doesn't reuse them.
+ **/
+export const failed_interpreters = new WeakSet<PhpInterpreter>;
+
 const encoder = new TextEncoder;
 const decoder = new TextDecoder;
 
@@ -116,6 +203,26 @@ function get_class_features(symbol: Any)
 	return features;
 }
 
+/**	Objects, that are passed to PHP by handle (not by value).
+ **/
+function is_deno_inst(value: Any)
+{	return value!=null && typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array && !get_bytes(value) || typeof(value)=='function' && value[symbol_php_object]==null;
+}
+
+/**	Binary data, that is passed to PHP as string.
+ **/
+function get_bytes(value: Any)
+{	if (value instanceof Uint8Array)
+	{	return value;
+	}
+	if (value instanceof ArrayBuffer)
+	{	return new Uint8Array(value);
+	}
+	if (ArrayBuffer.isView(value))
+	{	return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+	}
+}
+
 function get_inst_features(value: Any)
 {	let features = 0;
 	if (value)
@@ -163,6 +270,21 @@ function dispose_inst(inst: Any)
 	}
 }
 
+/**	For calls made from PHP inside `DenoWorld::async()`.
+	Rejection is considered handled, because PHP can discover it later with `wait()` (or never).
+ **/
+function to_promise(value: Any)
+{	const promise = Promise.resolve(value);
+	promise.catch(nop);
+	return promise;
+}
+
+/**	`settings.composer` can be project root directory, or path to `autoload.php`.
+ **/
+function get_composer_autoload(composer: string)
+{	return !composer || composer.endsWith('.php') ? composer : composer.replace(/[\/\\]+$/, '')+'/vendor/autoload.php';
+}
+
 function nop()
 {	// do nothing
 }
@@ -176,10 +298,12 @@ function nop()
 export class PhpInterpreter
 {	#php_cli_proc: Deno.ChildProcess|undefined;
 	#php_fpm_response: Promise<ResponseWithCookies>|undefined;
+	#php_fpm_addr = ''; // backend that is used for the current request
 	#listener: Deno.Listener|undefined;
 	#commands_io: Deno.Conn|undefined;
 	#buffer = new Uint8Array;
 	#is_inited = false;
+	#abort_init: ((error: Error) => void) | undefined; // set while `#do_init()` is in progress
 	#init_error: Error|undefined;
 	#using_unix_socket = '';
 	#ongoing = new Array<Promise<unknown>>;
@@ -187,7 +311,23 @@ export class PhpInterpreter
 	#stdout_mux: ReaderMux|undefined;
 	#deno_insts: Map<number, Any> = new Map; // php has handles to these objects
 	#deno_inst_id_enum = 2; // later will do: deno_insts.set(0, this); deno_insts.set(1, globalThis);
+	#deno_inst_paths = new Map<number, string>; // for objects fetched from globals, their path, like "Deno.env" (see `settings.deno_access`)
 	#pending_promise: Promise<unknown> | undefined;
+	#bins_out = new Map<number, Uint8Array>; // binary data referenced from records that are not yet queued (each queued operation takes its data from here)
+	#bins_in = new Map<number, Uint8Array>; // binary strings received from php, that will be referenced by the next result
+	#bin_id_enum = 0;
+	#call_options: CallOptions | undefined;
+	#abort_error: Error | undefined;
+	#handles_registry: FinalizationRegistry<HandleInfo> | undefined;
+	#handles_generation = 0; // incremented when the interpreter exits, so handles to objects of exited interpreter will not be freed in the next one
+	#released_handles = new Array<number>; // handles that were garbage collected, and will be freed on PHP side in the next batch
+	#request_times = new Array<number|undefined>; // when the last record was sent on each nesting level
+	#n_spawns = 0;
+	#restart_times = new Array<number>; // when automatic restarts happened during `settings.restart_window`
+	#restart_timer: ReturnType<typeof setTimeout> | undefined;
+	#restart_error: Error|undefined; // the error, because of which the interpreter is going to be restarted
+	#restart_at = 0;
+	#batch: BatchItem[] | undefined; // operations queued during `batch()` callback
 
 	/**	For accessing remote global PHP objects, except classes (functions, variables, constants).
 	 **/
@@ -201,6 +341,11 @@ export class PhpInterpreter
 	 **/
 	settings: PhpSettings;
 
+	/**	Counters of this interpreter: calls, callbacks, bytes transferred, latency and spawns.
+		The same counts are also added to `global_metrics`.
+	 **/
+	metrics = new PhpMetrics(global_metrics);
+
 	/**	The PHP interpreter is running.
 		It starts running after first function call or variable set, and stops running after `g.exit()` is called.
 	 **/
@@ -223,7 +368,13 @@ export class PhpInterpreter
 		{	return new Proxy
 			(	php,
 				{	get(php, prop_name)
-					{	if (typeof(prop_name)!='string' || prop_name.length==0)
+					{	if (is_class && prop_name==Symbol.asyncIterator)
+						{	// for await (const class_name of c)
+							return async function*()
+							{	yield* await php.composer_classes();
+							};
+						}
+						if (typeof(prop_name)!='string' || prop_name.length==0)
 						{	throw new Error('Invalid object name');
 						}
 						return create_proxy
@@ -354,7 +505,7 @@ export class PhpInterpreter
 									{	if (value == null)
 										{	php.#write_read(REC.SET_PATH, path_str+' ['+path_str_2+JSON.stringify(prop_name)+'],null]');
 										}
-										else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+										else if (is_deno_inst(value))
 										{	php.#write_read(REC.SET_PATH_INST, path_str+' '+php.#new_deno_inst(value)+' '+path_str_2+JSON.stringify(prop_name)+']');
 										}
 										else
@@ -390,7 +541,7 @@ export class PhpInterpreter
 											if (value == null)
 											{	php.#write_read(REC.CLASSSTATIC_SET, path_str_2);
 											}
-											else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+											else if (is_deno_inst(value))
 											{	php.#write_read(REC.CLASSSTATIC_SET_INST, path_str_2+' '+php.#new_deno_inst(value));
 											}
 											else
@@ -418,7 +569,7 @@ export class PhpInterpreter
 										{	if (value == null)
 											{	php.#write_read(REC.CLASSSTATIC_SET_PATH, path_str+JSON.stringify(prop_name)+'],null]');
 											}
-											else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+											else if (is_deno_inst(value))
 											{	php.#write_read(REC.CLASSSTATIC_SET_PATH_INST, path_str+JSON.stringify(prop_name)+'],'+php.#new_deno_inst(value)+']');
 											}
 											else
@@ -488,26 +639,7 @@ export class PhpInterpreter
 												{	if (args.length != 1)
 													{	throw new Error('Invalid number of arguments to eval()');
 													}
-													const path_str = JSON.stringify(args[0]);
-													let is_this = false;
-													const promise = php.#schedule
-													(	async () =>
-														{	if (!is_this)
-															{	await php.#do_write(REC.CALL_EVAL, path_str);
-																return await php.#do_read(for_stack);
-															}
-														}
-													);
-													Object.defineProperty
-													(	promise,
-														'this',
-														{	async get()
-															{	is_this = true;
-																return construct(php, await php.#write_read(REC.CALL_EVAL_THIS, path_str, for_stack));
-															}
-														}
-													);
-													return promise;
+													return call(php, REC.CALL_EVAL, REC.CALL_EVAL_THIS, JSON.stringify(args[0]), for_stack);
 												};
 											case 'echo':
 												return function(args)
@@ -562,25 +694,7 @@ export class PhpInterpreter
 									if (args.length != 0)
 									{	path_str_2 += ' '+php.#json_stringify_serialize_insts([...args]);
 									}
-									let is_this = false;
-									const promise = php.#schedule
-									(	async () =>
-										{	if (!is_this)
-											{	await php.#do_write(REC.CALL, path_str_2);
-												return await php.#do_read(for_stack);
-											}
-										}
-									);
-									Object.defineProperty
-									(	promise,
-										'this',
-										{	async get()
-											{	is_this = true;
-												return construct(php, await php.#write_read(REC.CALL_THIS, path_str_2, for_stack));
-											}
-										}
-									);
-									return promise;
+									return call(php, REC.CALL, REC.CALL_THIS, path_str_2, for_stack);
 								};
 							},
 
@@ -637,7 +751,7 @@ export class PhpInterpreter
 						if (value == null)
 						{	php.#write_read(REC.SET, prop_name);
 						}
-						else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+						else if (is_deno_inst(value))
 						{	php.#write_read(REC.SET_INST, prop_name+' '+php.#new_deno_inst(value));
 						}
 						else
@@ -667,6 +781,49 @@ export class PhpInterpreter
 			);
 		}
 
+		/**	Queues function call (`REC.CALL` or `REC.CALL_EVAL`), or adds it to the current batch.
+			Returns promise with `this` property. Getting `this` instead of awaiting the promise calls the function with `this_record_type`, that returns object handle.
+		 **/
+		function call(php: PhpInterpreter, record_type: number, this_record_type: number, str: string, for_stack: Error)
+		{	const bins = php.#take_bins_out(str);
+			const batch = php.#batch;
+			let is_this = false;
+			let promise;
+			if (batch)
+			{	promise = php.#add_to_batch(batch, record_type, str, bins, true, for_stack);
+			}
+			else
+			{	promise = php.#schedule
+				(	async () =>
+					{	if (!is_this)
+						{	await php.#do_write(record_type, str, undefined, bins);
+							return await php.#do_read(for_stack);
+						}
+					},
+					true
+				);
+			}
+			const item = batch?.[batch.length-1];
+			Object.defineProperty
+			(	promise,
+				'this',
+				{	async get()
+					{	if (item)
+						{	// the batch is not yet sent, so replace the record
+							if (php.#batch != batch)
+							{	throw new Error('`this` of batched call must be taken within the batch callback');
+							}
+							item.record_type = this_record_type;
+							return construct(php, await promise);
+						}
+						is_this = true;
+						return construct(php, await php.#write_read(this_record_type, str, for_stack, bins));
+					}
+				}
+			);
+			return promise;
+		}
+
 		function construct(php: PhpInterpreter, result: string, class_name=''): Any
 		{	if (!class_name)
 			{	const pos = result.indexOf(' ');
@@ -676,7 +833,8 @@ export class PhpInterpreter
 				}
 			}
 			const php_inst_id = Number(result);
-			return create_proxy
+			const handle = php.#new_handle(php_inst_id, class_name);
+			const inst = create_proxy
 			(	[],
 				class_name,
 
@@ -720,7 +878,7 @@ export class PhpInterpreter
 							if (value == null)
 							{	php.#write_read(REC.CLASS_SET, path_str+prop_name);
 							}
-							else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+							else if (is_deno_inst(value))
 							{	php.#write_read(REC.CLASS_SET_INST, path_str+prop_name+' '+php.#new_deno_inst(value));
 							}
 							else
@@ -741,7 +899,7 @@ export class PhpInterpreter
 						{	if (value == null)
 							{	php.#write_read(REC.CLASS_SET_PATH, path_str+JSON.stringify(prop_name)+'],null]');
 							}
-							else if (typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
+							else if (is_deno_inst(value))
 							{	php.#write_read(REC.CLASS_SET_PATH_INST, path_str+JSON.stringify(prop_name)+'],'+php.#new_deno_inst(value)+']');
 							}
 							else
@@ -758,7 +916,8 @@ export class PhpInterpreter
 					{	const path_str = php_inst_id+'';
 						return function(prop_name)
 						{	if (prop_name == 'this') // DEPRECATED. TODO: remove
-							{	php.#write(REC.DESTRUCT, path_str);
+							{	php.#untrack_handle(handle);
+								php.#write(REC.DESTRUCT, path_str);
 								return true;
 							}
 							php.#write_read(REC.CLASS_UNSET, path_str+' '+prop_name);
@@ -819,16 +978,8 @@ export class PhpInterpreter
 
 				// asyncIterator
 				_path =>
-				{	const path_str = php_inst_id+'';
-					return async function*()
-					{	let [value, done] = await php.#write_read(REC.CLASS_ITERATE_BEGIN, path_str);
-						while (true)
-						{	if (done)
-							{	return;
-							}
-							yield value;
-							[value, done] = await php.#write_read(REC.CLASS_ITERATE, path_str);
-						}
+				{	return function()
+					{	return php.#new_php_iterator(php_inst_id);
 					};
 				},
 
@@ -836,14 +987,20 @@ export class PhpInterpreter
 
 				// dispose
 				() =>
-				{	php.#write(REC.DESTRUCT, php_inst_id+'');
+				{	php.#untrack_handle(handle);
+					php.#write(REC.DESTRUCT, php_inst_id+'');
 				},
 
 				// asyncDispose
 				() =>
-				{	return php.#write(REC.DESTRUCT, php_inst_id+'');
+				{	php.#untrack_handle(handle);
+					return php.#write(REC.DESTRUCT, php_inst_id+'');
 				},
 			);
+			if (handle)
+			{	php.#track_handle(inst, handle);
+			}
+			return inst;
 		}
 	}
 
@@ -855,11 +1012,40 @@ export class PhpInterpreter
 	{	if (this.#init_error)
 		{	throw this.#init_error;
 		}
-		// 1. Set is_inited flag, to avoid entering this function recursively
-		debug_assert(!this.#is_inited);
-		debug_assert(!this.#php_cli_proc && !this.#php_fpm_response && !this.#stdout_mux && !this.#commands_io);
+		// Operation timeout or abort signal can interrupt spawning (see `#abort()`)
+		let abort_error: Error | undefined;
+		const aborted = new Promise<never>
+		(	(_, n) =>
+			{	this.#abort_init = error =>
+				{	abort_error = error;
+					n(error);
+				};
+			}
+		);
+		aborted.catch(nop);
+		const restart_error = this.#restart_error;
+		const spawn_since = performance.now();
 		try
-		{	if (this.#buffer.length == 0)
+		{	if (restart_error)
+			{	// 0. The interpreter is being restarted after crash, so wait for the backoff delay
+				this.#restart_error = undefined;
+				const delay = this.#restart_at - Date.now();
+				if (delay > 0)
+				{	let timer;
+					try
+					{	await Promise.race([new Promise(y => {timer = setTimeout(y, delay)}), aborted]);
+					}
+					finally
+					{	clearTimeout(timer);
+					}
+				}
+			}
+			// 1. Set is_inited flag, to avoid entering this function recursively
+			debug_assert(!this.#is_inited);
+			debug_assert(!this.#php_cli_proc && !this.#php_fpm_response && !this.#stdout_mux && !this.#commands_io);
+			const {ini, ini_admin, extensions, include_path} = this.settings;
+			validate_ini(ini, ini_admin, extensions, include_path, this.settings.php_fpm.listen.length>0);
+			if (this.#buffer.length == 0)
 			{	this.#buffer = new Uint8Array(BUFFER_LEN);
 			}
 			// 2. Open a listener, and start listening
@@ -881,13 +1067,14 @@ export class PhpInterpreter
 			const key = btoa(String.fromCharCode(...this.#buffer.subarray(0, KEY_LEN)));
 			const end_mark = this.#buffer.subarray(KEY_LEN, KEY_LEN + READER_MUX_END_MARK_LEN).slice();
 			const {init_php_file, override_args, interpreter_script, stdout} = this.settings;
-			const rec_helo = key+' '+btoa(String.fromCharCode(...end_mark))+' '+btoa(php_socket)+' '+btoa(init_php_file);
+			const rec_helo = key+' '+btoa(String.fromCharCode(...end_mark))+' '+btoa(php_socket)+' '+btoa(init_php_file)+' '+btoa(String.fromCharCode(...encoder.encode(JSON.stringify(this.#get_helo_options()))));
 			let php_boot_file = '';
 			// 4. Run the PHP interpreter or connect to PHP-FPM service
-			if (!this.settings.php_fpm.listen)
+			if (!this.settings.php_fpm.listen.length)
 			{	// Run the PHP interpreter
 				const cmd = Array.isArray(this.settings.php_cli_name) ? this.settings.php_cli_name[0] : this.settings.php_cli_name;
 				const args = Array.isArray(this.settings.php_cli_name) ? this.settings.php_cli_name.slice(1) : [];
+				args.push(...get_ini_args(ini, ini_admin, extensions, include_path));
 				if (interpreter_script || DEBUG_PHP_BOOT)
 				{	args.push('-f', interpreter_script || await get_interpreter_script_filename(DEBUG_PHP_BOOT));
 				}
@@ -898,7 +1085,8 @@ export class PhpInterpreter
 				if (addArgs.length)
 				{	args.push('--', ...addArgs);
 				}
-				this.#php_cli_proc = new Deno.Command(cmd, {args, stdin: 'piped', stdout, stderr: 'inherit'}).spawn();
+				const {env, clear_env, cwd} = this.settings;
+				this.#php_cli_proc = new Deno.Command(cmd, {args, stdin: 'piped', stdout, stderr: 'inherit', env, clearEnv: clear_env, cwd: cwd || undefined}).spawn();
 				// Send the HELO packet with opened listener address and the key
 				const stdin_writer = this.#php_cli_proc.stdin.getWriter();
 				try
@@ -919,38 +1107,32 @@ export class PhpInterpreter
 				php_boot_file = interpreter_script || await get_interpreter_script_filename(DEBUG_PHP_BOOT);
 				// Prepare params
 				let {params} = this.settings.php_fpm;
-				if (params.has('DENO_WORLD_HELO'))
-				{	// looks like object shared between requests
+				const ini_params = get_ini_params(ini, ini_admin, include_path);
+				const env = Object.entries(this.settings.env);
+				if (params.has('DENO_WORLD_HELO') || ini_params.size || env.length)
+				{	// looks like object shared between requests (or i'm going to add params, that must not remain in the shared object)
 					const params_clone = new Map;
 					for (const [k, v] of params)
 					{	params_clone.set(k, v);
 					}
 					params = params_clone;
 				}
+				for (const [k, v] of env)
+				{	params.set(k, v);
+				}
+				for (const [k, v] of ini_params)
+				{	const prev = params.get(k);
+					params.set(k, prev ? prev+'\n'+v : v);
+				}
 				params.set('DENO_WORLD_HELO', rec_helo);
 				params.set('SCRIPT_FILENAME', php_boot_file);
 				// max_conns
 				fcgi.options({maxConns: this.settings.php_fpm.max_conns});
 				// FCGI fetch
 				if (!fcgi.canFetch())
-				{	await fcgi.waitCanFetch();
+				{	await Promise.race([fcgi.waitCanFetch(), aborted]);
 				}
-				this.#php_fpm_response = fcgi.fetch
-				(	{	addr: this.settings.php_fpm.listen,
-						params,
-						connectTimeout: this.settings.php_fpm.connect_timeout,
-						timeout: Number.MAX_SAFE_INTEGER,
-						keepAliveTimeout: this.settings.php_fpm.keep_alive_timeout,
-						keepAliveMax: this.settings.php_fpm.keep_alive_max,
-						onLogError: this.settings.php_fpm.onlogerror ||
-						(	msg =>
-							{	console.error(msg);
-							}
-						)
-					},
-					this.settings.php_fpm.request,
-					this.settings.php_fpm.request_init
-				);
+				this.#php_fpm_response = this.#fetch_php_fpm(params);
 				// Mux stdout
 				if (stdout == 'null')
 				{	this.#php_fpm_response.then(r => r.body?.cancel());
@@ -988,7 +1170,7 @@ export class PhpInterpreter
 					if (result instanceof ResponseWithCookies)
 					{	// response came earlier than accept (script didn't connect to me)
 						accept.then(s => s.close()).catch(nop);
-						throw new Error(`Failed to execute PHP-FPM script "${php_boot_file}" through socket "${this.settings.php_fpm.listen}": status ${result.status}, ${await result.text()}`);
+						throw new Error(`Failed to execute PHP-FPM script "${php_boot_file}" through socket "${this.#php_fpm_addr}": status ${result.status}, ${await result.text()}`);
 					}
 					this.#commands_io = result;
 				}
@@ -999,42 +1181,157 @@ export class PhpInterpreter
 					}
 				}
 				catch (e)
-				{	console.error(e);
+				{	if (abort_error)
+					{	throw e;
+					}
+					console.error(e);
 				}
 				this.#commands_io.close();
 			}
-			// 6. init_php_file
+			// 6. Composer autoloader and init_php_file
 			this.#is_inited = true;
+			if (this.settings.composer)
+			{	// i loaded the autoloader, or sent the error
+				await this.#do_read();
+			}
 			if (init_php_file)
 			{	// i executed init_php_file that produced result (and maybe deno calls)
 				const result = await this.#do_read();
 				debug_assert(result == null);
 			}
+			this.metrics.add_spawn(performance.now()-spawn_since, this.#n_spawns++ > 0);
+			const {onrestart} = this.settings;
+			if (restart_error && onrestart)
+			{	// Don't await, because the callback can call the interpreter, and such calls are queued after this operation
+				const n_restarts = this.#restart_times.length;
+				Promise.resolve().then(() => onrestart(restart_error, n_restarts)).catch(e => console.error(e));
+			}
 		}
 		catch (e)
-		{	this.#init_error = e instanceof Error ? e : new Error(e+'');
+		{	if (abort_error)
+			{	// Aborted, so terminate the half-spawned interpreter. This is not a failure to remember, and the next call will spawn again.
+				await this.#do_exit();
+				throw abort_error;
+			}
+			this.#init_error = e instanceof Error ? e : new Error(e+'');
 			await this.#do_exit(true);
+			if (this.#schedule_restart(this.#init_error, true))
+			{	this.#init_error = undefined; // don't remember the error, but retry
+			}
 			throw e; // rethrow
 		}
+		finally
+		{	this.#abort_init = undefined;
+		}
 	}
 
-	async #do_write(record_type: number, str: string)
-	{	if (!this.#is_inited)
+	/**	Sends request to one of PHP-FPM backends.
+		If connection to a backend fails, marks it as failed, and retries on another one (up to `settings.php_fpm.retries` times).
+	 **/
+	async #fetch_php_fpm(params: Map<string, string>)
+	{	const {listen, retries, fail_timeout, connect_timeout} = this.settings.php_fpm;
+		const backends = get_php_fpm_backends(listen);
+		const tried = new Set<string>;
+		while (true)
+		{	const addr = await backends.pick(tried, fail_timeout, connect_timeout);
+			if (addr == undefined)
+			{	throw new Error(`No PHP-FPM backends to connect to: ${typeof(listen)=='string' ? listen : JSON.stringify(listen)}`);
+			}
+			tried.add(addr);
+			this.#php_fpm_addr = addr;
+			try
+			{	const response = await fcgi.fetch
+				(	{	addr,
+						params,
+						connectTimeout: connect_timeout,
+						timeout: Number.MAX_SAFE_INTEGER,
+						keepAliveTimeout: this.settings.php_fpm.keep_alive_timeout,
+						keepAliveMax: this.settings.php_fpm.keep_alive_max,
+						onLogError: this.settings.php_fpm.onlogerror ||
+						(	msg =>
+							{	console.error(msg);
+							}
+						)
+					},
+					this.settings.php_fpm.request,
+					this.settings.php_fpm.request_init
+				);
+				backends.mark_ok(addr);
+				return response;
+			}
+			catch (e)
+			{	if (!is_connect_error(e))
+				{	throw e;
+				}
+				this.metrics.add_php_fpm_connect_failure();
+				backends.mark_failed(addr, fail_timeout);
+				if (tried.size>retries || tried.size>=backends.size)
+				{	throw e;
+				}
+			}
+		}
+	}
+
+	/**	Sends record to PHP. The record payload is `str` followed by `bin` bytes (if given).
+		If `str` references binary data (Uint8Array or ArrayBuffer arguments), sends `REC.BIN` records before it.
+		The binary data is given in `bins` (if it was taken from `#bins_out` when the operation was queued), or is taken from `#bins_out` now.
+	 **/
+	async #do_write(record_type: number, str: string, bin?: Uint8Array, bins?: Map<number, Uint8Array>)
+	{	if (record_type != REC.BIN)
+		{	bins ??= this.#take_bins_out(str);
+		}
+		if (this.#abort_error)
+		{	// previous operation was aborted when it was about to complete
+			await this.#do_exit();
+		}
+		if (!this.#is_inited)
 		{	await this.#do_init();
 		}
-		let body = str.length<=this.#buffer.length ? this.#buffer : new Uint8Array(str.length+128);
+		if (bins)
+		{	for (const [bin_id, bin] of bins)
+			{	await this.#do_write(REC.BIN, bin_id+' ', bin);
+			}
+		}
+		let body = this.#encode_record(record_type, str, bin);
+		if (record_type!=REC.DATA && record_type!=REC.BIN)
+		{	this.metrics.add_call(REC[record_type]);
+		}
+		this.#trace('out', REC[record_type], bin ? str+'('+bin.length+' bytes)' : str, bin ? bin.length : str.length);
+		while (body.length > 0)
+		{	let n;
+			try
+			{	n = await this.#commands_io!.write(body);
+			}
+			catch (e)
+			{	await this.#throw_if_aborted();
+				throw e;
+			}
+			this.metrics.add_bytes(n, 0);
+			body = body.subarray(n);
+		}
+	}
+
+	/**	Returns the record with header and padding. The returned array can be view on `this.#buffer`, so it's valid till the next call.
+	 **/
+	#encode_record(record_type: number, str: string, bin?: Uint8Array)
+	{	const bin_len = bin?.length ?? 0;
+		let body = 8+str.length+bin_len<=this.#buffer.length ? this.#buffer : new Uint8Array(str.length+bin_len+128);
 		let offset = 8;
 		while (true)
-		{	const {read, written} = encoder.encodeInto(str, body.subarray(offset));
+		{	const {read, written} = encoder.encodeInto(str, body.subarray(offset, body.length-bin_len));
 			offset += written;
 			if (read >= str.length)
 			{	break;
 			}
 			str = str.slice(read);
-			const new_body = new Uint8Array(offset + str.length*2);
+			const new_body = new Uint8Array(offset + str.length*2 + bin_len);
 			new_body.set(body.subarray(0, offset));
 			body = new_body;
 		}
+		if (bin)
+		{	body.set(bin, offset);
+			offset += bin_len;
+		}
 		const header = new DataView(body.buffer);
 		header.setInt32(0, record_type);
 		header.setInt32(4, offset-8);
@@ -1047,9 +1344,90 @@ export class PhpInterpreter
 			new_body.set(body);
 			body = new_body;
 		}
-		while (body.length > 0)
-		{	const n = await this.#commands_io!.write(body);
-			body = body.subarray(n);
+		return body;
+	}
+
+	/**	Sends all the operations as one REC.BATCH record, and reads their results.
+		PHP stops executing the batch on first error, so the rest of operations reject with the same error.
+	 **/
+	async #do_batch(items: BatchItem[])
+	{	const records = new Array<Uint8Array>;
+		let len = 0;
+		for (const {record_type, str, bins} of items)
+		{	if (bins)
+			{	for (const [bin_id, bin] of bins)
+				{	const record = this.#encode_record(REC.BIN, bin_id+' ', bin).slice();
+					records.push(record);
+					len += record.length;
+				}
+			}
+			const record = this.#encode_record(record_type, str).slice();
+			records.push(record);
+			len += record.length;
+		}
+		const payload = new Uint8Array(len);
+		let offset = 0;
+		for (const record of records)
+		{	payload.set(record, offset);
+			offset += record.length;
+		}
+		let error: Error | undefined;
+		try
+		{	await this.#do_write(REC.BATCH, '', payload);
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		for (const item of items)
+		{	if (error)
+			{	item.n(error);
+			}
+			else if (!item.has_reply)
+			{	item.y(undefined);
+			}
+			else
+			{	try
+				{	item.y(await this.#do_read(item.for_stack));
+				}
+				catch (e)
+				{	error = e instanceof Error ? e : new Error(e+'');
+					item.n(error);
+				}
+			}
+		}
+		if (error)
+		{	throw error;
+		}
+	}
+
+	/**	Reads from `commands_io`. On EOF terminates the interpreter and throws exception.
+	 **/
+	async #read(buffer: Uint8Array)
+	{	let n_read;
+		try
+		{	n_read = await this.#commands_io!.read(buffer);
+		}
+		catch (e)
+		{	await this.#throw_if_aborted();
+			throw e;
+		}
+		if (n_read == null)
+		{	await this.#throw_if_aborted();
+			const is_php_fpm = !this.#php_cli_proc;
+			const status = await this.#do_exit();
+			const error = this.#exit_status_to_error(status);
+			this.#schedule_restart(error, is_php_fpm || status.code!=0); // for PHP-FPM the exit code is unknown
+			throw error;
+		}
+		this.metrics.add_bytes(0, n_read);
+		return n_read;
+	}
+
+	async #throw_if_aborted()
+	{	const abort_error = this.#abort_error;
+		if (abort_error)
+		{	await this.#do_exit();
+			throw abort_error;
 		}
 	}
 
@@ -1058,20 +1436,18 @@ export class PhpInterpreter
 		{	let buffer = this.#buffer.subarray(0, 8); // records are aligned to 8-byte boundaries, and padding is added as needed
 			let pos = 0;
 			while (pos < 8)
-			{	const n_read = await this.#commands_io!.read(buffer);
-				if (n_read == null)
-				{	this.#exit_status_to_exception(await this.#do_exit());
-				}
-				pos += n_read;
+			{	pos += await this.#read(buffer.subarray(pos));
 			}
 			let [len, first_word] = new Int32Array(buffer.buffer);
 			if (len == 0)
-			{	return null; // null
+			{	this.#trace('in', 'RESULT', 'null');
+				return null; // null
 			}
 			let is_result = true;
 			if (len < 0)
 			{	if (len == -1)
-				{	return; // undefined
+				{	this.#trace('in', 'RESULT', 'undefined');
+					return; // undefined
 				}
 				is_result = false;
 				len = -len;
@@ -1081,26 +1457,38 @@ export class PhpInterpreter
 			buffer = len<=this.#buffer.length ? this.#buffer.subarray(0, len) : new Uint8Array(len);
 			pos = 4; // first_word already read
 			while (pos < len)
-			{	const n_read = await this.#commands_io!.read(buffer.subarray(pos));
-				if (n_read == null)
-				{	this.#exit_status_to_exception(await this.#do_exit());
-				}
-				pos += n_read;
+			{	pos += await this.#read(buffer.subarray(pos));
 			}
 			if (is_result)
 			{	(new Int32Array(buffer.buffer))[0] = first_word;
-				return this.#json_parse_unserialize_insts(decoder.decode(buffer.subarray(padding)));
+				const json = decoder.decode(buffer.subarray(padding));
+				this.#trace('in', 'RESULT', json);
+				return this.#json_parse_unserialize_insts(json);
 			}
 			const view = new DataView(buffer.buffer);
-			const type = first_word;
+			const is_async = (first_word & RES_IS_ASYNC) != 0;
+			const type = first_word & ~RES_IS_ASYNC;
 			const deno_inst_id = view.getUint32(4);
+			if (type == RES.BIN)
+			{	this.#bins_in.set(deno_inst_id, buffer.slice(8+padding)); // for RES.BIN, deno_inst_id is bin_id
+				this.#trace('in', 'BIN', deno_inst_id+' ('+(len-8-padding)+' bytes)', len-8-padding);
+				continue;
+			}
 			const result = buffer.length<=8+padding ? '' : decoder.decode(buffer.subarray(8+padding));
+			this.metrics.add_callback(RES[type] ?? type+'');
+			this.#trace('in', (RES[type] ?? type+'')+(is_async ? ' ASYNC' : ''), deno_inst_id+' '+result, result.length);
+			if (type == RES.WARNING)
+			{	this.#on_warning(JSON.parse(result), for_stack);
+				continue;
+			}
 			if (type == RES.ERROR)
-			{	const [file, line, message, trace] = JSON.parse(result);
-				throw new InterpreterError(message, file, Number(line), trace, for_stack);
+			{	throw create_interpreter_error(JSON.parse(result), for_stack);
 			}
 			let data: Any;
+			let bin: Uint8Array | undefined;
 			let result_type = RESTYPE.IS_JSON;
+			let exit_error: Error | undefined;
+			let data_path: string | undefined;
 			const g: Any = globalThis;
 			if (this.#pending_promise)
 			{	await this.#pending_promise;
@@ -1111,12 +1499,15 @@ export class PhpInterpreter
 				switch (type)
 				{	case RES.GET_CLASS:
 					{	const class_name = result;
+						this.#check_deno_access(class_name, true);
 						const symbol = class_name in g ? g[class_name] : await this.settings.onsymbol(class_name);
 						data = !symbol ? RESTYPE.IS_ERROR : get_class_features(symbol);
 						break;
 					}
 					case RES.CONSTRUCT:
 					{	const [class_name, args] = this.#json_parse_unserialize_insts(result);
+						this.#check_deno_access(class_name);
+						data_path = this.#get_returned_path(class_name);
 						const symbol = class_name in g ? g[class_name] : await this.settings.onsymbol(class_name);
 						const deno_inst = new symbol(...args); // can throw error
 						data = this.#new_deno_inst(deno_inst);
@@ -1128,16 +1519,20 @@ export class PhpInterpreter
 						{	this.#pending_promise = dispose_inst(inst);
 						}
 						this.#deno_insts.delete(deno_inst_id);
+						this.#deno_inst_paths.delete(deno_inst_id);
 						continue;
 					}
 					case RES.CLASS_GET:
 					{	const name = result;
+						data_path = this.#get_deno_path(deno_inst_id, name);
+						this.#check_deno_access(data_path, true);
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
 						data = await deno_inst[name]; // can throw error
 						break;
 					}
 					case RES.CLASS_SET:
 					{	const [name, value] = this.#json_parse_unserialize_insts(result);
+						this.#check_deno_access(this.#get_deno_path(deno_inst_id, name));
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
 						deno_inst[name] = value; // can throw error
 						data = null;
@@ -1145,18 +1540,29 @@ export class PhpInterpreter
 					}
 					case RES.CLASS_CALL:
 					{	const [name, args] = this.#json_parse_unserialize_insts(result);
+						const path = this.#get_deno_path(deno_inst_id, name);
+						this.#check_deno_access(path);
+						data_path = this.#get_returned_path(path);
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
-						data = await deno_inst[name](...args); // can throw error
+						data = deno_inst[name](...args); // can throw error
+						data = is_async ? to_promise(data) : await data;
 						break;
 					}
 					case RES.CLASS_INVOKE:
 					{	const args = this.#json_parse_unserialize_insts(result);
+						const path = this.#get_deno_path(deno_inst_id);
+						this.#check_deno_access(path);
+						data_path = this.#get_returned_path(path);
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
-						data = await deno_inst(...args); // can throw error
+						data = deno_inst(...args); // can throw error
+						data = is_async ? to_promise(data) : await data;
 						break;
 					}
 					case RES.CLASS_GET_ITERATOR:
-					{	const deno_inst = this.#deno_insts.get(deno_inst_id);
+					{	const path = this.#get_deno_path(deno_inst_id);
+						this.#check_deno_access(path);
+						data_path = this.#get_returned_path(path);
+						const deno_inst = this.#deno_insts.get(deno_inst_id);
 						data = deno_inst[Symbol.asyncIterator] ? deno_inst[Symbol.asyncIterator]() : deno_inst[Symbol.iterator] ? deno_inst[Symbol.iterator]() : Object.entries(deno_inst)[Symbol.iterator](); // can throw error
 						break;
 					}
@@ -1167,12 +1573,14 @@ export class PhpInterpreter
 					}
 					case RES.CLASS_ISSET:
 					{	const name = result;
+						this.#check_deno_access(this.#get_deno_path(deno_inst_id, name), true);
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
 						data = deno_inst[name] != null; // can throw error
 						break;
 					}
 					case RES.CLASS_UNSET:
 					{	const name = result;
+						this.#check_deno_access(this.#get_deno_path(deno_inst_id, name));
 						const deno_inst = this.#deno_insts.get(deno_inst_id);
 						delete deno_inst[name]; // can throw error
 						break;
@@ -1188,14 +1596,26 @@ export class PhpInterpreter
 					}
 					case RES.CLASSSTATIC_CALL:
 					{	const [class_name, name, args] = this.#json_parse_unserialize_insts(result);
+						this.#check_deno_access(join_deno_path(class_name, name));
+						data_path = this.#get_returned_path(join_deno_path(class_name, name));
 						const symbol = class_name in g ? g[class_name] : await this.settings.onsymbol(class_name);
-						data = await symbol[name](...args); // can throw error
+						data = symbol[name](...args); // can throw error
+						data = is_async ? to_promise(data) : await data;
 						break;
 					}
 					case RES.CALL:
 					{	const [name, args] = this.#json_parse_unserialize_insts(result);
+						this.#check_deno_access(name);
+						data_path = this.#get_returned_path(name);
 						const symbol = name in g ? g[name] : await this.settings.onsymbol(name);
-						data = await symbol(...args); // can throw error
+						data = symbol(...args); // can throw error
+						data = is_async ? to_promise(data) : await data;
+						break;
+					}
+					case RES.AWAIT:
+					{	data_path = this.#get_deno_path(deno_inst_id); // the resolved value has the same path as the promise
+						const deno_inst = this.#deno_insts.get(deno_inst_id);
+						data = await deno_inst; // can throw error
 						break;
 					}
 					case RES.JSON_ENCODE:
@@ -1206,14 +1626,26 @@ export class PhpInterpreter
 					default:
 						debug_assert(false);
 				}
-				if (data!=null && (typeof(data)=='object' || typeof(data)=='function'))
-				{	result_type = get_inst_features(data);
+				bin = get_bytes(data);
+				if (bin)
+				{	result_type = RESTYPE.IS_STRING;
+					data = '';
+				}
+				else if (data!=null && (typeof(data)=='object' || typeof(data)=='function') && !(this.settings.codecs && find_codec(data)))
+				{	data_path = this.#get_known_path(data, data_path);
+					result_type = get_inst_features(data);
 					data = this.#new_deno_inst(data);
+					if (data_path !== undefined)
+					{	this.#deno_inst_paths.set(data, data_path);
+					}
 				}
 			}
 			catch (e)
 			{	result_type = RESTYPE.IS_ERROR;
 				data = e instanceof Error ? e.message : e+'';
+				if (e instanceof InterpreterExitError || e instanceof InterpreterAbortError)
+				{	exit_error = e;
+				}
 			}
 			finally
 			{	if (this.#ongoing.length > this.#ongoing_level)
@@ -1221,19 +1653,331 @@ export class PhpInterpreter
 				}
 				this.#ongoing_level--;
 			}
+			if (exit_error && !this.#is_inited)
+			{	// the interpreter was terminated from within the callback, so there's nobody to send the result to
+				throw exit_error;
+			}
 			if (result_type == RESTYPE.IS_JSON)
 			{	if (typeof(data) == 'string')
 				{	result_type = RESTYPE.IS_STRING;
 				}
-				else if (typeof(data) == 'bigint')
+				else if (typeof(data)=='bigint' && !this.settings.codecs)
 				{	result_type = RESTYPE.IS_STRING;
 					data = data+'';
 				}
 				else
-				{	data = JSON.stringify(data, (_key, value) => typeof(value)=='bigint' ? value+'' : value);
+				{	data = this.#json_stringify_serialize_insts(data); // applies codecs
 				}
 			}
-			await this.#do_write(REC.DATA, result_type+' '+data);
+			await this.#do_write(REC.DATA, result_type+' '+data, bin);
+		}
+	}
+
+	/**	Measures the latency of results for `metrics`, and reports the record to `settings.ontrace` and `settings.trace_file`, if they're set.
+	 **/
+	#trace(direction: 'out'|'in', type: string, payload: string, size=payload.length)
+	{	const now = performance.now();
+		const level = this.#ongoing_level;
+		let duration;
+		if (direction == 'out')
+		{	if (type != 'DATA') // replies to PHP requests don't start new operation
+			{	this.#request_times[level] = now;
+			}
+		}
+		else if (type == 'RESULT')
+		{	const since = this.#request_times[level];
+			if (since != undefined)
+			{	this.#request_times[level] = undefined;
+				duration = Math.round((now - since)*1000) / 1000;
+				this.metrics.add_latency(now - since);
+			}
+		}
+		const {ontrace, trace_file, trace_payload_max} = this.settings;
+		if (!ontrace && !trace_file)
+		{	return;
+		}
+		const record: PhpTraceRecord =
+		{	time: Date.now(),
+			direction,
+			type,
+			level,
+			payload: payload.length<=trace_payload_max ? payload : payload.slice(0, trace_payload_max)+'…',
+			size,
+			duration,
+		};
+		try
+		{	if (trace_file)
+			{	Deno.writeTextFileSync(trace_file, JSON.stringify(record)+'\n', {append: true});
+			}
+			const result = ontrace?.(record);
+			if (result instanceof Promise)
+			{	result.catch(e => console.error(e));
+			}
+		}
+		catch (e)
+		{	console.error(e);
+		}
+	}
+
+	/**	Options that are passed to the interpreter script together with HELO.
+	 **/
+	#get_helo_options()
+	{	return {
+			strict_levels: this.settings.strict_levels,
+			report_warnings: !!this.settings.onwarning,
+			cwd: this.settings.php_fpm.listen.length ? this.settings.cwd : '', // for PHP-CLI the process is spawned in this directory
+			composer_autoload: get_composer_autoload(this.settings.composer),
+			codecs: this.settings.codecs,
+		};
+	}
+
+	#on_warning(data: Any[], for_stack?: Error)
+	{	const [level, message, file, line, call_type, call_target] = data;
+		const call_name = REC[call_type] ?? '';
+		const warning: PhpWarning =
+		{	level,
+			level_name: PHP_ERROR_LEVEL_NAMES.get(level) ?? '',
+			message,
+			file,
+			line,
+			call: call_name && call_target ? call_name+' '+call_target : call_name,
+			stack: for_stack?.stack ?? '',
+		};
+		try
+		{	const result = this.settings.onwarning?.(warning);
+			if (result instanceof Promise)
+			{	result.catch(e => console.error(e));
+			}
+		}
+		catch (e)
+		{	console.error(e);
+		}
+	}
+
+	/**	If `settings.auto_release` or `settings.warn_leaked_handles` is set, returns object that describes the handle, that needs to be tracked.
+	 **/
+	#new_handle(php_inst_id: number, class_name: string): HandleInfo|undefined
+	{	const {auto_release, warn_leaked_handles} = this.settings;
+		if (auto_release || warn_leaked_handles)
+		{	const stack = !warn_leaked_handles ? '' : (new Error().stack ?? '').split('\n').slice(3).join('\n');
+			return {php_inst_id, class_name, generation: this.#handles_generation, auto_release, stack};
+		}
+	}
+
+	#track_handle(inst: Any, handle: HandleInfo)
+	{	this.#handles_registry ??= new FinalizationRegistry(handle => this.#on_handle_collected(handle));
+		this.#handles_registry.register(inst, handle, handle);
+	}
+
+	#untrack_handle(handle: HandleInfo|undefined)
+	{	if (handle)
+		{	this.#handles_registry?.unregister(handle);
+		}
+	}
+
+	#on_handle_collected(handle: HandleInfo)
+	{	if (handle.stack)
+		{	console.warn(`Handle to PHP object${handle.class_name ? ' of class '+handle.class_name : ''} was not disposed. It was created at:\n${handle.stack}`);
+		}
+		if (handle.auto_release && handle.generation==this.#handles_generation)
+		{	this.#released_handles.push(handle.php_inst_id);
+			if (this.#released_handles.length == 1)
+			{	queueMicrotask(() => this.#release_handles());
+			}
+		}
+	}
+
+	/**	Frees on PHP side all the handles collected so far, with one DESTRUCT record.
+	 **/
+	#release_handles()
+	{	const php_inst_ids = this.#released_handles.splice(0);
+		const generation = this.#handles_generation;
+		if (php_inst_ids.length == 0)
+		{	return;
+		}
+		// Queue to the top level, even if we're now in the middle of a callback from PHP
+		const ongoing_level = this.#ongoing_level;
+		this.#ongoing_level = 0;
+		try
+		{	this.#schedule
+			(	async () =>
+				{	if (this.#is_inited && generation==this.#handles_generation)
+					{	await this.#do_write(REC.DESTRUCT, php_inst_ids.join(' '));
+					}
+				}
+			).catch(nop);
+		}
+		finally
+		{	this.#ongoing_level = ongoing_level;
+		}
+	}
+
+	/**	Creates async iterator over PHP `Traversable` object.
+		For PHP generators, `next(value)` sends the value to the generator, `throw(error)` throws exception inside the generator at the current `yield`,
+		and the generator's return value is returned as the last result (with `done: true`).
+		`settings.iterator_prefetch` items are fetched per round trip.
+	 **/
+	#new_php_iterator(php_inst_id: number): AsyncGenerator<Any, Any, Any>
+	{	const buffer = new Array<Any>;
+		let state: 'initial'|'started'|'done' = 'initial';
+		let return_value: Any;
+		let queue: Promise<unknown> = Promise.resolve();
+
+		const step = async (record_type: REC, str: string, for_stack: Error) =>
+		{	try
+			{	const [values, done, value] = await this.#write_read(record_type, str, for_stack);
+				buffer.push(...values);
+				if (done)
+				{	state = 'done';
+					return_value = value;
+				}
+			}
+			catch (e)
+			{	state = 'done';
+				throw e;
+			}
+		};
+
+		const take = () =>
+		{	if (buffer.length)
+			{	return {value: buffer.shift(), done: false};
+			}
+			const value = return_value;
+			return_value = undefined;
+			return {value, done: true};
+		};
+
+		// like in native async generators, calls are executed one after another
+		const enqueue = <T>(callback: () => Promise<T>) =>
+		{	const promise = queue.then(callback);
+			queue = promise.catch(nop);
+			return promise;
+		};
+
+		const check_no_prefetched = () =>
+		{	if (buffer.length)
+			{	throw new Error('PHP generator already advanced, because items were prefetched (see settings.iterator_prefetch)');
+			}
+		};
+
+		const iter =
+		{	next: (...args: [] | [Any]) =>
+			{	const for_stack = new Error;
+				return enqueue
+				(	async () =>
+					{	if (state == 'initial')
+						{	state = 'started';
+							await step(REC.CLASS_ITERATE_BEGIN, php_inst_id+' '+Math.max(1, this.settings.iterator_prefetch), for_stack);
+						}
+						else if (state == 'started')
+						{	if (args.length && args[0]!==undefined)
+							{	check_no_prefetched();
+								await step(REC.CLASS_ITERATE_SEND, php_inst_id+' '+this.#json_stringify_serialize_insts(args[0]), for_stack);
+							}
+							else if (buffer.length == 0)
+							{	await step(REC.CLASS_ITERATE, php_inst_id+' '+Math.max(1, this.settings.iterator_prefetch), for_stack);
+							}
+						}
+						return take();
+					}
+				);
+			},
+
+			return: (value?: Any) =>
+			{	const for_stack = new Error;
+				return enqueue
+				(	async () =>
+					{	const is_started = state == 'started';
+						state = 'done';
+						buffer.length = 0;
+						return_value = undefined;
+						if (is_started)
+						{	// PHP generator's `finally` blocks run now, and errors from them are thrown from here
+							await this.#write_read(REC.CLASS_ITERATE_END, php_inst_id+'', for_stack);
+						}
+						return {value: await value, done: true};
+					}
+				);
+			},
+
+			throw: (error?: Any) =>
+			{	const for_stack = new Error;
+				return enqueue
+				(	async () =>
+					{	if (state != 'started')
+						{	state = 'done';
+							throw error;
+						}
+						check_no_prefetched();
+						await step(REC.CLASS_ITERATE_THROW, php_inst_id+' '+JSON.stringify(error instanceof Error ? error.message : error+''), for_stack);
+						return take();
+					}
+				);
+			},
+
+			[Symbol.asyncIterator]()
+			{	return iter;
+			},
+		};
+		return iter as AsyncGenerator<Any, Any, Any>;
+	}
+
+	/**	Creates async function, that calls PHP closure (that PHP sent as `PHP_WORLD_CALLABLE_ID`).
+		The closure is freed on PHP side when the function is garbage collected.
+	 **/
+	#new_php_callable(php_inst_id: number)
+	{	const for_stack = new Error;
+		const func = (...args: Any[]) => this.#write_read(REC.CLASS_INVOKE, args.length==0 ? php_inst_id+'' : php_inst_id+' '+this.#json_stringify_serialize_insts(args), for_stack);
+		func.toJSON = () => ({PHP_WORLD_INST_ID: php_inst_id}); // when passed back to PHP, it becomes the original closure
+		(func as Any)[symbol_php_object] = 'Closure'; // so `is_deno_inst()` returns false, and setters also pass it through `toJSON()`
+		this.#track_handle(func, {php_inst_id, class_name: 'Closure', generation: this.#handles_generation, auto_release: true, stack: ''});
+		return func;
+	}
+
+	/**	If `settings.deno_access` is set, returns path of the Deno object (with `name` appended), that is checked against the policy.
+		Returns undefined for objects that are not restricted (objects that Deno code passed to PHP), but still doesn't allow to access forbidden members on them.
+	 **/
+	#get_deno_path(deno_inst_id: number, name?: string)
+	{	if (this.settings.deno_access)
+		{	const path = deno_inst_id==0 ? 'php' : deno_inst_id==1 ? '' : this.#deno_inst_paths.get(deno_inst_id);
+			if (path !== undefined)
+			{	return name===undefined ? path : join_deno_path(path, name);
+			}
+			if (name !== undefined)
+			{	check_deno_member(name);
+			}
+		}
+	}
+
+	/**	Path of object, that function or constructor at `path` returned (see `settings.deno_access`).
+	 **/
+	#get_returned_path(path: string|undefined)
+	{	if (this.settings.deno_access && path!==undefined)
+		{	return path + '()';
+		}
+	}
+
+	/**	If `settings.deno_access` is set, and the object is known to the policy by identity (like the global object, or `Deno`), returns its own path, and checks that it can be fetched.
+		Otherwise returns `path`.
+	 **/
+	#get_known_path(data: Any, path: string|undefined)
+	{	const policy = this.settings.deno_access;
+		if (policy)
+		{	const known_path = get_known_deno_path(policy, data);
+			if (known_path !== undefined)
+			{	if (known_path !== '')
+				{	check_deno_access(policy, known_path, true);
+				}
+				return known_path;
+			}
+		}
+		return path;
+	}
+
+	#check_deno_access(path: string|undefined, is_fetch=false)
+	{	const policy = this.settings.deno_access;
+		if (policy && path!==undefined)
+		{	check_deno_access(policy, path, is_fetch);
 		}
 	}
 
@@ -1247,22 +1991,64 @@ export class PhpInterpreter
 	#json_parse_unserialize_insts(json: string)
 	{	return JSON.parse
 		(	json,
-			(_key, value) => typeof(value)=='object' && value?.DENO_WORLD_INST_ID>=0 ? this.#deno_insts.get(value.DENO_WORLD_INST_ID) : value
+			(_key, value) =>
+			{	if (typeof(value)=='object' && value!=null)
+				{	if (value.DENO_WORLD_INST_ID >= 0)
+					{	return this.#deno_insts.get(value.DENO_WORLD_INST_ID);
+					}
+					if (value.PHP_WORLD_CALLABLE_ID >= 0)
+					{	return this.#new_php_callable(value.PHP_WORLD_CALLABLE_ID);
+					}
+					if (Array.isArray(value.PHP_WORLD_CODEC))
+					{	return decode_codec(value.PHP_WORLD_CODEC[0], value.PHP_WORLD_CODEC[1]);
+					}
+					if (value.PHP_WORLD_BIN_ID >= 0)
+					{	const bin = this.#bins_in.get(value.PHP_WORLD_BIN_ID);
+						this.#bins_in.delete(value.PHP_WORLD_BIN_ID);
+						return this.settings.binary_strings=='string' && bin ? decoder.decode(bin) : bin;
+					}
+				}
+				return value;
+			}
 		);
 	}
 
 	#json_stringify_serialize_insts(value: Any)
-	{	return JSON.stringify
-		(	value,
-			(_key, value) =>
-			{	if (value!=null && typeof(value)=='object' && value.constructor!=Object && value.constructor!=Array || typeof(value)=='function' && value[symbol_php_object]==null)
-				{	return {DENO_WORLD_INST_ID: this.#new_deno_inst(value)};
-				}
-				else
-				{	return value;
+	{	const use_codecs = this.settings.codecs;
+		const bin_ids = new Array<number>;
+		const serialize = (value: Any) =>
+		{	const bin = get_bytes(value);
+			if (bin)
+			{	const bin_id = this.#bin_id_enum;
+				this.#bin_id_enum = (this.#bin_id_enum + 1) & 0x7FFF_FFFF;
+				this.#bins_out.set(bin_id, bin);
+				bin_ids.push(bin_id);
+				return {DENO_WORLD_BIN_ID: bin_id};
+			}
+			if (is_deno_inst(value))
+			{	return {DENO_WORLD_INST_ID: this.#new_deno_inst(value)};
+			}
+			else
+			{	return value;
+			}
+		};
+		try
+		{	return JSON.stringify
+			(	value,
+				function(this: Any, key: string, value: Any)
+				{	const orig = this[key]; // value before `toJSON()` was called on it (like on `Date` object)
+					const codec = use_codecs ? find_codec(orig) : undefined;
+					return codec ? {DENO_WORLD_CODEC: [codec.name, codec.encode!(orig)]} : typeof(value)=='bigint' ? value+'' : serialize(value);
 				}
+			);
+		}
+		catch (e)
+		{	// the record will not be sent, so forget the binary data that it references
+			for (const bin_id of bin_ids)
+			{	this.#bins_out.delete(bin_id);
 			}
-		);
+			throw e;
+		}
 	}
 
 	async #discard_php_fpm_response(php_fpm_response: Promise<ResponseWithCookies>)
@@ -1286,22 +2072,29 @@ export class PhpInterpreter
 	}
 
 	async #do_exit(no_reset_error=false): Promise<Deno.CommandStatus>
-	{	if (!this.#is_inited && !this.#init_error && this.settings.init_php_file)
+	{	if (!this.#is_inited && !this.#init_error && !this.#abort_init && this.settings.init_php_file)
 		{	// Didn't call any functions, just called exit(), so `init_php_file` was not executed.
 			await this.#do_init();
 		}
-		try
-		{	this.#commands_io?.close();
-		}
-		catch (e)
-		{	console.error(e);
+		const is_aborted = !!this.#abort_error;
+		if (!is_aborted || this.#php_cli_proc)
+		{	try
+			{	this.#commands_io?.close();
+			}
+			catch (e)
+			{	console.error(e);
+			}
 		}
 		const promises = new Array<Promise<unknown>>;
 		if (this.#stdout_mux)
 		{	promises.push(this.#stdout_mux.dispose().catch(e => console.error(e)));
 		}
 		if (this.#php_fpm_response)
-		{	promises.push(this.#discard_php_fpm_response(this.#php_fpm_response).catch(e => console.error(e)));
+		{	const promise = this.#discard_php_fpm_response(this.#php_fpm_response).catch(e => console.error(e));
+			if (!is_aborted)
+			{	promises.push(promise);
+			}
+			// else the PHP-FPM worker can be still busy executing the aborted operation, so don't wait for it
 		}
 		let status: Deno.CommandStatus;
 		if (this.#php_cli_proc)
@@ -1340,7 +2133,9 @@ export class PhpInterpreter
 		this.#php_fpm_response = undefined;
 		this.#listener = undefined;
 		this.#commands_io = undefined;
+		this.#bins_out.clear();
 		this.#is_inited = false;
+		this.#abort_error = undefined;
 		if (!no_reset_error)
 		{	this.#init_error = undefined;
 		}
@@ -1354,16 +2149,58 @@ export class PhpInterpreter
 			}
 		}
 		this.#deno_insts.clear();
+		this.#deno_inst_paths.clear();
+		this.#bins_in.clear();
+		this.#handles_generation++;
+		this.#released_handles.length = 0;
 		this.#deno_insts.set(0, this);
 		this.#deno_insts.set(1, globalThis);
 		this.#deno_inst_id_enum = 2;
 		return status;
 	}
 
-	#exit_status_to_exception(status: {code: number} | undefined): never
+	#exit_status_to_error(status: {code: number} | undefined)
 	{	const code = status?.code ?? -1;
 		const message = code==-1 ? 'PHP interpreter died' : code!=0 ? `PHP interpreter died with error code ${code}` : 'PHP interpreter exited';
-		throw new InterpreterExitError(message, code);
+		return new InterpreterExitError(message, code);
+	}
+
+	/**	If `settings.restart` policy allows, schedules starting the interpreter again in background, after backoff delay.
+		Returns false if the policy doesn't allow restarting, or the limit of restarts per `settings.restart_window` is reached.
+	 **/
+	#schedule_restart(error: Error, is_crash: boolean)
+	{	const {restart, restart_max, restart_window, restart_backoff, restart_backoff_max} = this.settings;
+		if (this.#restart_timer != undefined)
+		{	return true; // already scheduled
+		}
+		if (restart=='never' || restart=='on_crash' && !is_crash)
+		{	return false;
+		}
+		const now = Date.now();
+		this.#restart_times = this.#restart_times.filter(t => t > now-restart_window);
+		if (this.#restart_times.length >= restart_max)
+		{	return false;
+		}
+		const delay = Math.min(restart_backoff * 2**this.#restart_times.length, restart_backoff_max);
+		this.#restart_times.push(now);
+		this.#restart_error = error;
+		this.#restart_at = now + delay;
+		this.#restart_timer = setTimeout
+		(	() =>
+			{	this.#restart_timer = undefined;
+				this.#schedule(() => this.#is_inited || this.#init_error ? Promise.resolve() : this.#do_init()).catch(nop); // if this fails, next restart is scheduled, or the error is remembered for the next remote call
+			},
+			delay
+		);
+		Deno.unrefTimer(this.#restart_timer); // pending restart doesn't keep the process alive
+		return true;
+	}
+
+	#cancel_restart()
+	{	clearTimeout(this.#restart_timer);
+		this.#restart_timer = undefined;
+		this.#restart_error = undefined;
+		this.#restart_times.length = 0;
 	}
 
 	async #do_n_objects()
@@ -1371,6 +2208,25 @@ export class PhpInterpreter
 		return await this.#do_read();
 	}
 
+	async #do_composer_classes()
+	{	await this.#do_write(REC.COMPOSER_CLASSES, '');
+		return await this.#do_read();
+	}
+
+	async #do_capture_end(is_flush: boolean, for_stack?: Error)
+	{	if (!this.#is_inited)
+		{	return new Uint8Array; // the interpreter exited, so nothing to capture
+		}
+		await this.#do_write(REC.CAPTURE_END, is_flush ? 'flush' : '');
+		const bin_id = await this.#do_read(for_stack);
+		if (is_flush)
+		{	return new Uint8Array;
+		}
+		const output = this.#bins_in.get(bin_id) ?? new Uint8Array;
+		this.#bins_in.delete(bin_id);
+		return output;
+	}
+
 	async #do_get_stdout_readable_stream()
 	{	if (!this.#is_inited)
 		{	await this.#do_init();
@@ -1382,8 +2238,11 @@ export class PhpInterpreter
 		return this.#stdout_mux.get_readable_stream();
 	}
 
-	#schedule<T>(callback: () => Promise<T>): Promise<T>
-	{	const ongoing_level = this.#ongoing_level;
+	#schedule<T>(callback: () => Promise<T>, is_abortable=false): Promise<T>
+	{	if (is_abortable)
+		{	callback = this.#apply_call_options(callback);
+		}
+		const ongoing_level = this.#ongoing_level;
 		const ongoing = this.#ongoing[ongoing_level];
 		const promise = !ongoing ? callback() : ongoing.then(callback);
 		this.#ongoing[ongoing_level] = promise;
@@ -1391,13 +2250,84 @@ export class PhpInterpreter
 		(	() =>
 			{	const ongoing = this.#ongoing[ongoing_level];
 				if (ongoing)
-				{	this.#ongoing[ongoing_level] = ongoing.catch(nop);
+				{	this.#ongoing[ongoing_level] = ongoing.catch
+					(	e =>
+						{	if (!(e instanceof InterpreterError))
+							{	failed_interpreters.add(this);
+							}
+						}
+					);
 				}
 			}
 		);
 		return promise;
 	}
 
+	/**	Wraps the callback, so it will be aborted on timeout or abort signal.
+		Call options are taken at the moment when the operation is queued.
+	 **/
+	#apply_call_options<T>(callback: () => Promise<T>): () => Promise<T>
+	{	const timeout = this.#call_options?.timeout ?? this.settings.call_timeout;
+		const signal = this.#call_options?.signal;
+		if (!(timeout > 0) && !signal)
+		{	return callback;
+		}
+		return () =>
+		{	if (signal?.aborted)
+			{	return Promise.reject(new InterpreterAbortError('Operation aborted', signal.reason));
+			}
+			const onabort = () => this.#abort(new InterpreterAbortError('Operation aborted', signal?.reason));
+			signal?.addEventListener('abort', onabort);
+			const timer = !(timeout > 0) ? undefined : setTimeout(() => this.#abort(new InterpreterTimeoutError(`Operation timed out after ${timeout} ms`, timeout)), timeout);
+			return callback().finally
+			(	() =>
+				{	clearTimeout(timer);
+					signal?.removeEventListener('abort', onabort);
+				}
+			);
+		};
+	}
+
+	/**	Terminates the interpreter (or drops the PHP-FPM request) in the middle of an operation.
+		The pending read or write fails, and the operation rejects with `error`.
+	 **/
+	#abort(error: Error)
+	{	if (!this.#is_inited && !this.#abort_init || this.#abort_error)
+		{	return;
+		}
+		this.#abort_error = error;
+		try
+		{	if (this.#php_cli_proc)
+			{	this.#php_cli_proc.kill('SIGKILL');
+			}
+			else
+			{	this.#commands_io?.close();
+			}
+			if (!this.#is_inited)
+			{	// the interpreter didn't connect yet, so stop waiting for it
+				this.#listener?.close();
+				this.#listener = undefined;
+			}
+		}
+		catch
+		{	// Ok, already exited
+		}
+		this.#abort_init?.(error);
+	}
+
+	/**	Spawns the interpreter (or connects to PHP-FPM service) in advance, so the first remote call will not need to wait for this.
+		If the interpreter is already running, does nothing.
+	 **/
+	spawn()
+	{	return this.#schedule
+		(	async () =>
+			{	if (!this.#is_inited)
+				{	await this.#do_init();
+				}
+			}
+		);
+	}
+
 	/**	Each remote function call or a variable fetch queues operation. All the operations will be executed in sequence.
 		This function returns promise that resolves when all current operations completed.
 	 **/
@@ -1406,15 +2336,131 @@ export class PhpInterpreter
 	}
 
 	#write(record_type: number, str: string)
-	{	return this.#schedule(() => this.#do_write(record_type, str));
+	{	const bins = this.#take_bins_out(str);
+		if (this.#batch)
+		{	return this.#add_to_batch(this.#batch, record_type, str, bins, false);
+		}
+		return this.#schedule(() => this.#do_write(record_type, str, undefined, bins));
 	}
 
-	#write_read(record_type: number, str: string, for_stack?: Error)
-	{	return this.#schedule(() => this.#do_write(record_type, str).then(() => this.#do_read(for_stack)));
+	#write_read(record_type: number, str: string, for_stack?: Error, bins=this.#take_bins_out(str))
+	{	if (this.#batch)
+		{	return this.#add_to_batch(this.#batch, record_type, str, bins, true, for_stack);
+		}
+		return this.#schedule(() => this.#do_write(record_type, str, undefined, bins).then(() => this.#do_read(for_stack)), true);
+	}
+
+	/**	Removes from `#bins_out` binary data that `str` references, and returns it.
+		The operation that is being queued owns its data, so if it fails or is aborted before it's sent, the data is not leaked,
+		and `#do_exit()` (that clears `#bins_out`) doesn't drop the data of operations queued after it.
+	 **/
+	#take_bins_out(str: string)
+	{	let bins: Map<number, Uint8Array> | undefined;
+		if (this.#bins_out.size != 0)
+		{	for (const m of str.matchAll(RE_BIN_MARKER))
+			{	const bin_id = Number(m[1]);
+				const bin = this.#bins_out.get(bin_id);
+				if (bin)
+				{	this.#bins_out.delete(bin_id);
+					bins ??= new Map;
+					bins.set(bin_id, bin);
+				}
+			}
+		}
+		return bins;
+	}
+
+	#add_to_batch(batch: BatchItem[], record_type: number, str: string, bins: Map<number, Uint8Array> | undefined, has_reply: boolean, for_stack?: Error)
+	{	const promise = new Promise<Any>((y, n) => {batch.push({record_type, str, bins, has_reply, for_stack, y, n})});
+		promise.catch(nop); // like in `#schedule()`, the error is delivered to whoever awaits this promise, and it's not reported as unhandled
+		return promise;
 	}
 
 	#exit()
-	{	return this.#schedule(() => this.#do_exit());
+	{	this.#cancel_restart();
+		return this.#schedule(() => this.#do_exit());
+	}
+
+	/**	Applies timeout and/or abort signal to remote operations (function calls, variable fetches, etc.), that the callback queues.
+		Only operations queued synchronously from within the callback are affected.
+		If an operation times out or is aborted while executing (or while the interpreter is being spawned, or PHP-FPM is being connected), the interpreter is terminated (or PHP-FPM request is dropped),
+		and the operation promise rejects with `InterpreterTimeoutError` or `InterpreterAbortError`.
+		The next remote call will respawn the interpreter.
+
+		```ts
+		const result = await php.abortable({timeout: 5000, signal: AbortSignal.timeout(10_000)}, () => g.my_slow_func());
+		```
+	 **/
+	abortable<T>(options: CallOptions, callback: () => T): T
+	{	const prev_call_options = this.#call_options;
+		this.#call_options = options;
+		try
+		{	return callback();
+		}
+		finally
+		{	this.#call_options = prev_call_options;
+		}
+	}
+
+	/**	Captures what PHP prints (with `echo`, `print`, `printf()`, etc.) during the operations that the callback performs.
+		Output buffering (`ob_start()`) is started before the callback is called, and the buffer contents are returned after the callback's promise resolves,
+		so all the operations on this interpreter queued during this time are captured (including the ones queued from elsewhere).
+		Captures can be nested. If the callback throws, the captured output is passed to the outer buffer (or to stdout), as if there was no capture.
+
+		```ts
+		const {result, output} = await php.capture(() => g.render_template('main', {title: 'Hello'}));
+		console.log(new TextDecoder().decode(output));
+		```
+	 **/
+	async capture<T>(callback: () => T): Promise<CaptureResult<Awaited<T>>>
+	{	const for_stack = new Error;
+		await this.#write_read(REC.CAPTURE_START, '', for_stack);
+		let result;
+		try
+		{	result = await callback();
+		}
+		catch (e)
+		{	await this.#schedule(() => this.#do_capture_end(true, for_stack), true).catch(nop);
+			throw e;
+		}
+		const output = await this.#schedule(() => this.#do_capture_end(false, for_stack), true);
+		return {result, output};
+	}
+
+	/**	Executes many remote operations in one round trip.
+		All the operations (function calls, variable fetches and sets, etc.), that the callback queues synchronously (without awaiting), are sent to PHP together,
+		and the returned promise resolves to array of their results, when all of them complete.
+		The operations are executed in order. If one of them throws exception, the rest of the batch is not executed, and all the remaining operations reject with this exception.
+		Other interpreter methods, like `php.n_objects()` or `g.exit()`, are not batched.
+
+		```ts
+		const [len, upper] = await php.batch(() => [g.strlen('abc'), g.strtoupper('abc')]);
+		```
+	 **/
+	async batch<T extends readonly unknown[] | []>(callback: () => T): Promise<{-readonly [K in keyof T]: Awaited<T[K]>}>
+	{	if (this.#batch)
+		{	// nested batch joins the outer one
+			return await Promise.all(callback());
+		}
+		const batch = new Array<BatchItem>;
+		let result;
+		this.#batch = batch;
+		try
+		{	result = callback();
+		}
+		catch (e)
+		{	for (const item of batch)
+			{	item.n(e instanceof Error ? e : new Error(e+''));
+			}
+			throw e;
+		}
+		finally
+		{	this.#batch = undefined;
+		}
+		if (batch.length != 0)
+		{	this.#schedule(() => this.#do_batch(batch), true).catch(nop);
+		}
+		return await Promise.all(result);
 	}
 
 	/**	Number of allocated handles to remote PHP objects, that must be explicitly freed when not in use anymore.
@@ -1423,6 +2469,31 @@ export class PhpInterpreter
 	{	return this.#schedule(() => this.#do_n_objects());
 	}
 
+	/**	Returns sorted list of classes, that composer autoloader (see `settings.composer`) can load.
+		These are classes from the class map (all classes, if the autoloader is optimized with `composer dump-autoload -o`), and classes found in PSR-4 directories.
+		The same list is produced by iterating `c`: `for await (const class_name of php.c) ...`.
+	 **/
+	composer_classes(): Promise<string[]>
+	{	return this.#schedule(() => this.#do_composer_classes());
+	}
+
+	/**	Returns effective values of php.ini directives in the interpreter (spawns it if needed).
+		Without arguments returns all the directives. Directives that don't exist are returned as `false`.
+
+		```ts
+		settings.ini = {memory_limit: '256M'};
+		console.log(await php.get_ini(['memory_limit', 'display_errors'])); // {memory_limit: '256M', display_errors: '...'}
+		```
+	 **/
+	async get_ini(names?: string[]): Promise<Record<string, string|false>>
+	{	const all: Record<string, string|null> = await this.g.ini_get_all(null, false);
+		const result: Record<string, string|false> = {};
+		for (const name of names ?? Object.keys(all))
+		{	result[name] = name in all ? all[name] ?? '' : false;
+		}
+		return result;
+	}
+
 	/**	Number of Deno objects, that PHP-side currently holds.
 		Initially there're 2: $php and $globalThis ($window == $globalThis).
 		As you request Deno objects, this number will grow, and once you free references, this number will be decreased.
@@ -0,0 +1,317 @@
+import {PhpInterpreter, failed_interpreters} from './php_interpreter.ts';
+import {PhpSettings, PhpSettingsInit} from './php_settings.ts';
+
+const DEFAULT_MIN_SIZE = 1;
+const DEFAULT_MAX_SIZE = 8;
+const DEFAULT_IDLE_TIMEOUT = 30_000;
+
+export interface PhpInterpreterPoolOptions
+{	/**	This number of interpreters will be spawned in advance (on first `acquire()` or `warm_up()`), and they will be kept running even when idle.
+	 **/
+	min_size: number;
+
+	/**	Maximal number of interpreters in the pool. If all of them are busy, `acquire()` waits till one is released.
+	 **/
+	max_size: number;
+
+	/**	Idle interpreters above `min_size` are terminated after this number of milliseconds.
+	 **/
+	idle_timeout: number;
+
+	/**	After an interpreter was acquired this number of times, it will be recycled (terminated and respawned) on release.
+	 **/
+	max_uses: number;
+
+	/**	If true, every interpreter will be recycled on release, so next `acquire()` will get a fresh one.
+	 **/
+	recycle: boolean;
+
+	/**	Callback that is called on release, and that can reset the interpreter state (unset global variables, close connections, etc.).
+		If it throws error, the interpreter will be recycled.
+	 **/
+	onreset?: (php: PhpInterpreter) => unknown;
+}
+
+export interface PhpInterpreterPoolStats
+{	/**	Number of interpreters that belong to the pool (idle + busy).
+	 **/
+	size: number;
+	idle: number;
+	busy: number;
+
+	/**	Number of `acquire()` calls that wait for an interpreter to be released.
+	 **/
+	waiting: number;
+
+	n_acquired: number;
+	n_spawned: number;
+	n_recycled: number;
+}
+
+interface PoolItem
+{	php: PhpInterpreter;
+	n_uses: number;
+	idle_timer: ReturnType<typeof setTimeout> | undefined;
+	spawning: Promise<unknown> | undefined;
+}
+
+interface PoolWaiter
+{	y: (item: PoolItem) => void;
+	n: (error: Error) => void;
+}
+
+/**	Pool of interpreters that are spawned in advance.
+	Call `acquire()` to get an interpreter from the pool, and release it when done.
+
+	```ts
+	const pool = new PhpInterpreterPool({php_cli_name: 'php'}, {min_size: 2, max_size: 4});
+	{	await using lease = await pool.acquire(); // binding to "await using" releases the interpreter at the end of the block
+		console.log(await lease.g.phpversion());
+	}
+	await pool.close();
+	```
+ **/
+export class PhpInterpreterPool
+{	/**	Settings for all the interpreters in this pool. Modify them before the first `acquire()`.
+	 **/
+	settings: PhpSettings;
+
+	#options: PhpInterpreterPoolOptions;
+	#idle = new Array<PoolItem>;
+	#waiting = new Array<PoolWaiter>;
+	#size = 0;
+	#n_created = 0;
+	#n_acquired = 0;
+	#n_spawned = 0;
+	#n_recycled = 0;
+	#is_warm = false;
+	#is_closed = false;
+
+	constructor(init_settings?: PhpSettingsInit, options?: Partial<PhpInterpreterPoolOptions>)
+	{	this.settings = new PhpSettings(init_settings);
+		const max_size = Math.max(1, options?.max_size ?? DEFAULT_MAX_SIZE);
+		this.#options =
+		{	min_size: Math.min(max_size, Math.max(0, options?.min_size ?? DEFAULT_MIN_SIZE)),
+			max_size,
+			idle_timeout: options?.idle_timeout ?? DEFAULT_IDLE_TIMEOUT,
+			max_uses: options?.max_uses || Number.MAX_SAFE_INTEGER,
+			recycle: options?.recycle ?? false,
+			onreset: options?.onreset,
+		};
+	}
+
+	get stats(): PhpInterpreterPoolStats
+	{	return {
+			size: this.#size,
+			idle: this.#idle.length,
+			busy: this.#size - this.#idle.length,
+			waiting: this.#waiting.length,
+			n_acquired: this.#n_acquired,
+			n_spawned: this.#n_spawned,
+			n_recycled: this.#n_recycled,
+		};
+	}
+
+	/**	Spawns `min_size` interpreters. It's not necessary to call this function, because the first `acquire()` does this in background.
+	 **/
+	async warm_up()
+	{	this.#is_warm = true;
+		const promises = new Array<Promise<unknown>>;
+		while (this.#size < this.#options.min_size && !this.#is_closed)
+		{	const item = this.#new_item();
+			this.#idle.push(item);
+			promises.push(this.#spawn(item).catch(e => console.error(e)));
+		}
+		await Promise.all(promises);
+	}
+
+	/**	Get an interpreter from the pool. If all the interpreters are busy, and the pool reached it's `max_size`, waits till one is released.
+		The returned lease must be released by calling `lease.release()`, or by binding it to `using` or `await using`.
+	 **/
+	async acquire(): Promise<PhpInterpreterLease>
+	{	if (this.#is_closed)
+		{	throw new Error('Interpreter pool is closed');
+		}
+		if (!this.#is_warm)
+		{	this.warm_up();
+		}
+		let item = this.#idle.pop();
+		if (item)
+		{	clearTimeout(item.idle_timer);
+		}
+		else if (this.#size < this.#options.max_size)
+		{	item = this.#new_item();
+		}
+		else
+		{	item = await new Promise<PoolItem>((y, n) => {this.#waiting.push({y, n})});
+		}
+		item.n_uses++;
+		this.#n_acquired++;
+		try
+		{	await this.#spawn(item);
+		}
+		catch (e)
+		{	this.#release(item, true);
+			throw e;
+		}
+		return new PhpInterpreterLease(item.php, () => this.#release(item));
+	}
+
+	/**	Terminate idle interpreters, and reject pending `acquire()` calls.
+		Busy interpreters will be terminated when released.
+	 **/
+	async close()
+	{	this.#is_closed = true;
+		for (const waiter of this.#waiting.splice(0))
+		{	waiter.n(new Error('Interpreter pool is closed'));
+		}
+		const promises = new Array<Promise<unknown>>;
+		for (const item of this.#idle.splice(0))
+		{	clearTimeout(item.idle_timer);
+			this.#size--;
+			promises.push(item.php.g.exit().catch(nop));
+		}
+		await Promise.all(promises);
+	}
+
+	async [Symbol.asyncDispose]()
+	{	await this.close();
+	}
+
+	#new_item(): PoolItem
+	{	const php = new PhpInterpreter(this.settings);
+		if (this.settings.unix_socket_name)
+		{	php.settings.unix_socket_name = this.settings.unix_socket_name + '.' + this.#n_created;
+		}
+		this.#n_created++;
+		this.#size++;
+		return {php, n_uses: 0, idle_timer: undefined, spawning: undefined};
+	}
+
+	#spawn(item: PoolItem)
+	{	if (!item.php.is_active && !item.spawning)
+		{	this.#n_spawned++;
+			item.spawning = item.php.spawn().finally(() => {item.spawning = undefined});
+		}
+		return item.spawning ?? Promise.resolve();
+	}
+
+	async #release(item: PoolItem, recycle=false)
+	{	const {php} = item;
+		if (!recycle)
+		{	try
+			{	await php.ready(); // wait for operations that the borrower didn't await (this doesn't throw if they failed)
+			}
+			catch
+			{	recycle = true;
+			}
+		}
+		if (failed_interpreters.delete(php))
+		{	recycle = true; // some operation failed not because of PHP exception
+		}
+		recycle ||= this.#options.recycle || item.n_uses>=this.#options.max_uses || !php.is_active;
+		if (!recycle && this.#options.onreset)
+		{	try
+			{	await this.#options.onreset(php);
+			}
+			catch
+			{	recycle = true;
+			}
+		}
+		if (recycle)
+		{	this.#n_recycled++;
+			item.n_uses = 0;
+			try
+			{	await php.g.exit();
+			}
+			catch (e)
+			{	console.error(e);
+			}
+		}
+		// Give to the next waiter, or return to the idle list
+		const waiter = this.#waiting.shift();
+		if (waiter)
+		{	waiter.y(item);
+		}
+		else if (this.#is_closed)
+		{	this.#size--;
+			await php.g.exit().catch(nop);
+		}
+		else
+		{	this.#idle.push(item);
+			if (this.#size > this.#options.min_size)
+			{	item.idle_timer = setTimeout(() => this.#drop_idle(item), this.#options.idle_timeout);
+				Deno.unrefTimer(item.idle_timer);
+			}
+			else if (recycle)
+			{	// keep it warm
+				this.#spawn(item).catch(e => console.error(e));
+			}
+		}
+	}
+
+	#drop_idle(item: PoolItem)
+	{	const i = this.#idle.indexOf(item);
+		if (i != -1)
+		{	this.#idle.splice(i, 1);
+			this.#size--;
+			item.php.g.exit().catch((e: unknown) => console.error(e));
+		}
+	}
+}
+
+/**	Interpreter acquired from `PhpInterpreterPool`.
+	Use `g` and `c` like `php.g` and `php.c`, and call `release()` when done (or bind the lease to `using` or `await using`).
+ **/
+export class PhpInterpreterLease
+{	#php: PhpInterpreter | undefined;
+	#onrelease: () => Promise<void>;
+
+	constructor(php: PhpInterpreter, onrelease: () => Promise<void>)
+	{	this.#php = php;
+		this.#onrelease = onrelease;
+	}
+
+	get php()
+	{	if (!this.#php)
+		{	throw new Error('Interpreter already released');
+		}
+		return this.#php;
+	}
+
+	/**	The same as `this.php.g`.
+	 **/
+	get g()
+	{	return this.php.g;
+	}
+
+	/**	The same as `this.php.c`.
+	 **/
+	get c()
+	{	return this.php.c;
+	}
+
+	/**	Return the interpreter to the pool. It's alright to call this function several times.
+	 **/
+	release()
+	{	if (!this.#php)
+		{	return Promise.resolve();
+		}
+		this.#php = undefined;
+		return this.#onrelease();
+	}
+
+	/**	Releases without waiting. Errors are printed to console, so `await using` is preferred.
+	 **/
+	[Symbol.dispose]()
+	{	this.release().catch(e => console.error(e));
+	}
+
+	async [Symbol.asyncDispose]()
+	{	await this.release();
+	}
+}
+
+function nop()
+{	// do nothing
+}
@@ -1,18 +1,37 @@
 import {ResponseWithCookies} from './deps.ts';
+import {DenoAccessPolicy} from './deno_access.ts';
+import {PhpFpmListen} from './php_fpm_backends.ts';
+import {PhpIniValue} from './php_ini.ts';
 
 const PHP_CLI_NAME_DEFAULT = 'php';
 const DEFAULT_CONNECT_TIMEOUT = 4_000;
 const DEFAULT_KEEP_ALIVE_TIMEOUT = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_FAIL_TIMEOUT = 10_000;
 
 // deno-lint-ignore no-explicit-any
 type Any = any;
 
 export interface PhpFpmSettings
-{	listen: string;
+{	/**	PHP-FPM service address, like `localhost:9000` or `/run/php/php-fpm.sock`.
+		Can be a list of backends, like `['host-a:9000', {listen: 'host-b:9000', weight: 2}]`.
+		Then requests are distributed between them in weighted round-robin fashion, and if connection to a backend fails, the request is retried on another one.
+	 **/
+	listen: PhpFpmListen;
+
 	max_conns: number;
 
 	connect_timeout: number;
 
+	/**	If connection to a backend fails, try up to this number of other backends.
+	 **/
+	retries: number;
+
+	/**	After connection to a backend failed, it will not be used for this number of milliseconds (unless all the backends failed).
+		After that it will be probed by connecting to it, before sending requests again.
+	 **/
+	fail_timeout: number;
+
 	/**	Connections to PHP-FPM service will be reused for this number of milliseconds (deno script may not exit while there're idle connections - call `php.close_idle()` to close them).
 	 **/
 	keep_alive_timeout: number;
@@ -47,6 +66,8 @@ export class PhpSettings
 	php_fpm: PhpFpmSettings =
 	{	listen: '',
 		connect_timeout: DEFAULT_CONNECT_TIMEOUT,
+		retries: DEFAULT_RETRIES,
+		fail_timeout: DEFAULT_FAIL_TIMEOUT,
 		keep_alive_timeout: DEFAULT_KEEP_ALIVE_TIMEOUT,
 		keep_alive_max: Number.MAX_SAFE_INTEGER,
 		params: new Map,
@@ -96,21 +117,249 @@ export class PhpSettings
 
 	onsymbol: (name: string) => Any = () => {};
 
+	/**	Restricts which Deno globals, classes and methods PHP code can access through `DenoWorld` objects.
+		If not set (default), PHP can access everything.
+		Violations are thrown as PHP exceptions.
+	 **/
+	deno_access: DenoAccessPolicy | undefined;
+
+	/**	Default timeout in milliseconds for each remote operation (function call, variable fetch, etc.). 0 means no timeout.
+		The time is counted from when the operation starts executing, not from when it was queued.
+		If the operation times out, the interpreter is terminated (or PHP-FPM request is dropped), and the operation promise rejects with `InterpreterTimeoutError`.
+		Timeout for individual operations can be set with `php.abortable()`.
+	 **/
+	call_timeout = 0;
+
+	/**	How to return PHP strings that are not valid UTF-8 (like results of `random_bytes()` or `gzencode()`).
+		`uint8array` (default) - return them as `Uint8Array`.
+		`string` - decode them as UTF-8, replacing invalid sequences with U+FFFD.
+		Valid UTF-8 strings are always returned as strings.
+	 **/
+	binary_strings: 'uint8array'|'string' = 'uint8array';
+
+	/**	PHP errors of these levels (bitmask of `E_*` constants) will be converted to exceptions, so the remote operation promise rejects.
+		This applies only to errors that are reported according to `error_reporting()`, and not suppressed with `@` operator.
+		Default is `-1` (all levels). For example, to reject on everything except notices and deprecations, set `-1 & ~(E_NOTICE|E_USER_NOTICE|E_DEPRECATED|E_USER_DEPRECATED)`, that is `-1 & ~25608`.
+		Errors of other levels are delivered to `onwarning` (if set), or handled by the standard PHP error handler.
+	 **/
+	strict_levels = -1;
+
+	/**	Callback that receives PHP warnings, notices and deprecations, that are not converted to exceptions (see `strict_levels`).
+	 **/
+	onwarning: ((warning: PhpWarning) => unknown) | undefined;
+
+	/**	If true, handles to remote PHP objects (like objects returned by `new c.MyClass` or by `g.my_func().this`), that become unreachable in Deno (are garbage collected),
+		will be freed on PHP side automatically. Handles are freed in batches, after the garbage collector reports them.
+		Explicit disposal with `Symbol.dispose` is still possible, and is recommended where the object lifetime is known.
+		Only handles created while this setting is on are tracked.
+	 **/
+	auto_release = false;
+
+	/**	If true, print warning to console for each handle to remote PHP object, that was garbage collected without being disposed.
+		The warning includes Deno stack trace from where the handle was created.
+		This is intended for development, to find places where `Symbol.dispose` is missing.
+	 **/
+	warn_leaked_handles = false;
+
+	/**	When iterating PHP objects (like generators) with `for await`, how many items to fetch per round trip to PHP. Default: 1.
+		Items are fetched in advance, so PHP code of a generator runs ahead of the Deno loop.
+		Values can be sent to a generator with `next(value)` only when there're no prefetched items.
+	 **/
+	iterator_prefetch = 1;
+
+	/**	php.ini directives to set, like `{memory_limit: '256M', display_errors: false, 'opcache.enable_cli': true}`.
+		For PHP-CLI they're passed as `-d` command-line arguments, and for PHP-FPM as `PHP_VALUE` FastCGI param.
+		Note that PHP-FPM keeps values set through `PHP_VALUE` in the worker process for subsequent requests.
+		Use `php.get_ini()` to read back effective values.
+	 **/
+	ini: Record<string, PhpIniValue> = {};
+
+	/**	php.ini directives, that PHP code must not be able to change, like `{disable_functions: 'exec,system', open_basedir: '/var/www:/tmp'}`.
+		For PHP-FPM they're passed as `PHP_ADMIN_VALUE` FastCGI param, so `ini_set()` can't override them.
+		PHP-CLI has no such distinction, so they're passed as `-d` command-line arguments, like `ini`.
+	 **/
+	ini_admin: Record<string, PhpIniValue> = {};
+
+	/**	PHP extensions to load, like `['gmp', '/usr/lib/php/ext/my_ext.so']`.
+		They're passed to PHP-CLI as `-d extension=...` arguments. PHP-FPM loads extensions only from the pool configuration, so with PHP-FPM this setting must be empty
+		(otherwise the first remote operation rejects).
+	 **/
+	extensions: string[] = [];
+
+	/**	PHP `include_path`. If array is given, the paths are joined with the system path separator.
+	 **/
+	include_path: string|string[] = '';
+
+	/**	Environment variables for the PHP process.
+		For PHP-CLI they're added to the environment of the spawned process, and for PHP-FPM they're passed as FastCGI params (so they appear in `$_SERVER` and `getenv()`).
+	 **/
+	env: Record<string, string> = {};
+
+	/**	If true, PHP-CLI process will not inherit environment variables of the Deno process (only `env` will be set).
+		This setting is ignored for PHP-FPM, where the environment of worker processes is controlled by `clear_env` directive in the pool configuration.
+	 **/
+	clear_env = false;
+
+	/**	Working directory for PHP script. Default is the current directory of the Deno process (for PHP-CLI), or what PHP-FPM sets.
+		For PHP-CLI the process is spawned in this directory, and for PHP-FPM the interpreter script calls `chdir()` to it.
+		If `init_php_file` is set, the working directory is then changed to the directory of that file.
+	 **/
+	cwd = '';
+
+	/**	Composer project root directory (that contains `vendor/autoload.php`), or path to the autoloader file.
+		If set, the interpreter script loads the autoloader when the interpreter starts, so classes from composer packages are available through `c`.
+		Use `php.composer_classes()` to list classes that the autoloader can load.
+	 **/
+	composer = '';
+
+	/**	Callback that receives each record, that is sent to or received from the PHP interpreter. For debugging.
+	 **/
+	ontrace: ((record: PhpTraceRecord) => unknown) | undefined;
+
+	/**	If set, each record, that is sent to or received from the PHP interpreter, will be appended to this file in JSON Lines format. For debugging.
+	 **/
+	trace_file = '';
+
+	/**	Payloads of traced records are truncated to this number of characters.
+	 **/
+	trace_payload_max = 200;
+
+	/**	What to do when the PHP interpreter terminates unexpectedly (not through `g.exit()`):
+		- `never` - Don't restart. The interpreter will be spawned again on the next remote call, but if it failed to start, the error is remembered and thrown till `g.exit()` is called.
+		- `on_crash` - Start it again in background, if it exited with nonzero code, was killed, or failed to start. For PHP-FPM the exit code is unknown, so any unexpected termination counts as crash.
+		- `always` - The same, and also after PHP script called `exit()`.
+
+		The operation, during which the interpreter terminated, still rejects with `InterpreterExitError`, because the interpreter state is lost.
+	 **/
+	restart: 'never'|'on_crash'|'always' = 'never';
+
+	/**	Maximal number of automatic restarts during `restart_window` milliseconds. After that, the interpreter will not be restarted automatically.
+	 **/
+	restart_max = 5;
+
+	restart_window = 60_000;
+
+	/**	Delay in milliseconds before the first restart. Each next restart within `restart_window` waits twice as long as the previous one, but not longer than `restart_backoff_max`.
+	 **/
+	restart_backoff = 100;
+
+	restart_backoff_max = 10_000;
+
+	/**	Callback that is called after automatic restart, with the error, because of which the interpreter was restarted, and the number of restarts during `restart_window`.
+		It's called when the new interpreter is ready, so it can call it (for example to set it up again).
+	 **/
+	onrestart: ((error: Error, n_restarts: number) => unknown) | undefined;
+
+	/**	Convert values that cross the bridge with registered codecs (see `register_codec()`), like `Date` to `DateTimeImmutable` and back.
+		If false, such objects are passed by handle, as other objects, and PHP integers that are not safe in Javascript come as numbers.
+	 **/
+	codecs = false;
+
 	constructor(init_settings?: PhpSettingsInit)
 	{	this.php_cli_name = init_settings?.php_cli_name ?? this.php_cli_name;
 		this.php_fpm.listen = init_settings?.php_fpm?.listen ?? this.php_fpm.listen;
 		this.php_fpm.connect_timeout = init_settings?.php_fpm?.connect_timeout ?? this.php_fpm.connect_timeout;
+		this.php_fpm.retries = init_settings?.php_fpm?.retries ?? this.php_fpm.retries;
+		this.php_fpm.fail_timeout = init_settings?.php_fpm?.fail_timeout ?? this.php_fpm.fail_timeout;
 		this.php_fpm.keep_alive_timeout = init_settings?.php_fpm?.keep_alive_timeout ?? this.php_fpm.keep_alive_timeout;
 		this.php_fpm.keep_alive_max = init_settings?.php_fpm?.keep_alive_max ?? this.php_fpm.keep_alive_max;
 		this.php_fpm.params = init_settings?.php_fpm?.params ?? this.php_fpm.params;
 		this.php_fpm.request = init_settings?.php_fpm?.request ?? this.php_fpm.request;
 		this.php_fpm.max_conns = init_settings?.php_fpm?.max_conns ?? this.php_fpm.max_conns;
+		this.php_fpm.request_init = init_settings?.php_fpm?.request_init;
+		this.php_fpm.onresponse = init_settings?.php_fpm?.onresponse;
+		this.php_fpm.onlogerror = init_settings?.php_fpm?.onlogerror;
 		this.unix_socket_name = init_settings?.unix_socket_name ?? this.unix_socket_name;
+		this.localhost_name = init_settings?.localhost_name ?? this.localhost_name;
+		this.localhost_name_bind = init_settings?.localhost_name_bind ?? this.localhost_name_bind;
+		this.interpreter_script = init_settings?.interpreter_script ?? this.interpreter_script;
 		this.stdout = init_settings?.stdout ?? this.stdout;
 		this.init_php_file = init_settings?.init_php_file ?? this.init_php_file;
 		this.override_args = init_settings?.override_args;
 		this.onsymbol = init_settings?.onsymbol ?? this.onsymbol;
+		this.deno_access = init_settings?.deno_access;
+		this.call_timeout = init_settings?.call_timeout ?? this.call_timeout;
+		this.binary_strings = init_settings?.binary_strings ?? this.binary_strings;
+		this.strict_levels = init_settings?.strict_levels ?? this.strict_levels;
+		this.onwarning = init_settings?.onwarning;
+		this.auto_release = init_settings?.auto_release ?? this.auto_release;
+		this.warn_leaked_handles = init_settings?.warn_leaked_handles ?? this.warn_leaked_handles;
+		this.iterator_prefetch = init_settings?.iterator_prefetch ?? this.iterator_prefetch;
+		this.ini = init_settings?.ini ?? this.ini;
+		this.ini_admin = init_settings?.ini_admin ?? this.ini_admin;
+		this.extensions = init_settings?.extensions ?? this.extensions;
+		this.include_path = init_settings?.include_path ?? this.include_path;
+		this.env = init_settings?.env ?? this.env;
+		this.clear_env = init_settings?.clear_env ?? this.clear_env;
+		this.cwd = init_settings?.cwd ?? this.cwd;
+		this.composer = init_settings?.composer ?? this.composer;
+		this.ontrace = init_settings?.ontrace;
+		this.trace_file = init_settings?.trace_file ?? this.trace_file;
+		this.trace_payload_max = init_settings?.trace_payload_max ?? this.trace_payload_max;
+		this.restart = init_settings?.restart ?? this.restart;
+		this.restart_max = init_settings?.restart_max ?? this.restart_max;
+		this.restart_window = init_settings?.restart_window ?? this.restart_window;
+		this.restart_backoff = init_settings?.restart_backoff ?? this.restart_backoff;
+		this.restart_backoff_max = init_settings?.restart_backoff_max ?? this.restart_backoff_max;
+		this.onrestart = init_settings?.onrestart;
+		this.codecs = init_settings?.codecs ?? this.codecs;
 	}
 }
 
+export interface PhpWarning
+{	/**	Error level, like `E_WARNING` (2).
+	 **/
+	level: number;
+
+	/**	Error level name, like `E_WARNING`.
+	 **/
+	level_name: string;
+
+	message: string;
+	file: string;
+	line: number;
+
+	/**	Remote operation, during which the warning was produced, like `CALL strlen` (function call), `CALL_EVAL` or `CLASS_CALL 3 method` (method call on object handle 3).
+		Empty string if the warning was produced during interpreter initialization.
+	 **/
+	call: string;
+
+	/**	Stack trace of Deno code, that issued the operation.
+	 **/
+	stack: string;
+}
+
+/**	Record, that was sent to or received from the PHP interpreter (see `settings.ontrace` and `settings.trace_file`).
+ **/
+export interface PhpTraceRecord
+{	/**	Unix time in milliseconds.
+	 **/
+	time: number;
+
+	/**	`out` - from Deno to PHP, `in` - from PHP to Deno.
+	 **/
+	direction: 'out'|'in';
+
+	/**	Record type: name of `REC` for outgoing records (like `CALL` or `CLASS_GET`, and `DATA` for replies to PHP requests),
+		name of `RES` for requests from PHP (like `CLASS_CALL` or `GET_CLASS`), or `RESULT` for results of operations.
+	 **/
+	type: string;
+
+	/**	Nesting level of callbacks from PHP to Deno (0 - top level operation).
+	 **/
+	level: number;
+
+	/**	Decoded payload, truncated to `settings.trace_payload_max` characters.
+	 **/
+	payload: string;
+
+	/**	Length of the whole payload in characters (or in bytes for binary data).
+	 **/
+	size: number;
+
+	/**	For `RESULT` records - milliseconds since the operation request was sent.
+	 **/
+	duration?: number;
+}
+
 export type PhpSettingsInit = Partial<Omit<PhpSettings, 'php_fpm'>> & {php_fpm?: Partial<PhpFpmSettings>};
@@ -0,0 +1,408 @@
+import {create_proxy} from './proxy_object.ts';
+import {PhpSettingsInit} from './php_settings.ts';
+import {InterpreterError, InterpreterExitError, InterpreterAbortError, InterpreterTimeoutError} from './errors.ts';
+
+// deno-lint-ignore no-explicit-any
+type Any = any;
+
+export const G_HANDLE_ID = 0;
+export const C_HANDLE_ID = 1;
+
+export type OpType = 'get' | 'set' | 'delete' | 'call' | 'call_this' | 'construct' | 'iterate' | 'dispose';
+
+/**	Messages from `PhpWorker` to the worker.
+ **/
+export type ToWorkerMessage =
+	{type: 'init', settings: PhpSettingsInit|undefined, module: string} |
+	{type: 'op', id: number, op: OpType, handle_id: number, path: string[], args: Any[]} |
+	{type: 'callback_result', id: number, value?: Any, error?: SerializedError} |
+	{type: 'release', handle_id: number};
+
+/**	Messages from the worker to `PhpWorker`.
+ **/
+export type FromWorkerMessage =
+	{type: 'result', id: number, value?: Any, error?: SerializedError} |
+	{type: 'callback', id: number, callback_id: number, args: Any[]} |
+	{type: 'release_callback', callback_id: number};
+
+export interface SerializedError
+{	class_name: string;
+	message: string;
+	stack: string;
+	props: Record<string, Any>;
+}
+
+const ERROR_CLASSES: Record<string, Any> = {Error, TypeError, RangeError, InterpreterError, InterpreterExitError, InterpreterAbortError, InterpreterTimeoutError};
+
+export function serialize_error(error: unknown): SerializedError
+{	if (!(error instanceof Error))
+	{	return {class_name: 'Error', message: error+'', stack: '', props: {}};
+	}
+	const props: Record<string, Any> = {};
+	for (const [k, v] of Object.entries(error))
+	{	if (k!='cause' && typeof(v)!='function')
+		{	props[k] = v;
+		}
+	}
+	return {class_name: error.constructor.name, message: error.message, stack: error.stack ?? '', props};
+}
+
+export function unserialize_error(data: SerializedError)
+{	const error: Error = Object.create((ERROR_CLASSES[data.class_name] ?? Error).prototype); // don't call the constructor, that can modify the stack
+	Object.defineProperty(error, 'message', {value: data.message, writable: true, configurable: true});
+	Object.defineProperty(error, 'stack', {value: data.stack, writable: true, configurable: true});
+	return Object.assign(error, data.props);
+}
+
+/**	Is this a plain object or array, whose members are checked for functions and handles when passing it between threads.
+ **/
+export function is_plain(value: Any)
+{	if (Array.isArray(value))
+	{	return true;
+	}
+	const proto = Object.getPrototypeOf(value);
+	return proto==Object.prototype || proto==null;
+}
+
+function nop()
+{
+}
+
+function without_functions(settings: Any): Any
+{	if (settings == undefined)
+	{	return;
+	}
+	const result: Record<string, Any> = {};
+	for (const [k, v] of Object.entries(settings))
+	{	if (typeof(v) != 'function')
+		{	result[k] = k=='php_fpm' ? without_functions(v) : v;
+		}
+	}
+	return result;
+}
+
+export interface PhpWorkerOptions
+{	/**	Module, that will be imported in the worker before the interpreter is used.
+		It can set global functions and objects, that PHP code will access through `$window`.
+	 **/
+	module?: string | URL;
+}
+
+interface HandleInfo
+{	handle_id: number;
+	class_name: string;
+}
+
+interface Pending
+{	y: (value: Any) => void;
+	n: (error: Error) => void;
+}
+
+/**	PHP interpreter, that runs in a Deno Worker. The interpreter is created in the worker, and this object sends operations to it.
+	`g` and `c` work like `php.g` and `php.c` of `PhpInterpreter`, including object handles and passing Deno functions to PHP as callbacks
+	(callbacks are executed in this thread).
+
+	```ts
+	const worker = new PhpWorker({php_cli_name: 'php'});
+	console.log(await worker.g.phpversion());
+	await worker.terminate();
+	```
+ **/
+export class PhpWorker
+{	#worker: Worker;
+	#id_enum = 0;
+	#pending = new Map<number, Pending>;
+	#queue = new Array<ToWorkerMessage & {type: 'op'}>; // operations to send in the next microtask (so `.this` can be applied to a call, before it's sent)
+	#callbacks = new Map<number, (...args: Any[]) => Any>;
+	#callback_ids = new WeakMap<object, number>;
+	#callback_id_enum = 0;
+	#handles = new WeakMap<object, HandleInfo>;
+	#handles_registry = new FinalizationRegistry<number>(handle_id => this.#post({type: 'release', handle_id}));
+	#error: Error|undefined;
+
+	/**	For accessing remote global PHP objects, except classes (functions, variables, constants).
+	 **/
+	g: Any;
+
+	/**	For accessing remote PHP classes.
+	 **/
+	c: Any;
+
+	/**	Starts the worker. `init_settings` are passed to `PhpInterpreter` constructor in the worker, except callbacks (like `onwarning`), that can not be passed to another thread.
+	 **/
+	constructor(init_settings?: PhpSettingsInit, options?: PhpWorkerOptions)
+	{	const settings = without_functions(init_settings);
+		try
+		{	structuredClone(settings);
+		}
+		catch (e)
+		{	throw new Error(`Settings of PhpWorker must be cloneable: ${e instanceof Error ? e.message : e}`);
+		}
+		this.#worker = new Worker(new URL('./php_worker_host.ts', import.meta.url), {type: 'module'});
+		this.#worker.onmessage = e => this.#on_message(e.data);
+		this.#worker.onerror = e =>
+		{	e.preventDefault();
+			this.#fail(new Error(`Error in PhpWorker: ${e.message}`));
+		};
+		this.#post({type: 'init', settings, module: options?.module ? options.module+'' : ''});
+		this.g = this.#create_proxy(G_HANDLE_ID, '');
+		this.c = this.#create_proxy(C_HANDLE_ID, '');
+	}
+
+	/**	Terminates the interpreter (calls `g.exit()` in the worker), and then terminates the worker.
+		Operations that are still pending reject with error.
+	 **/
+	async terminate()
+	{	try
+		{	if (!this.#error)
+			{	await this.g.exit();
+			}
+		}
+		finally
+		{	this.#worker.terminate();
+			this.#fail(new Error('PhpWorker terminated'));
+		}
+	}
+
+	async [Symbol.asyncDispose]()
+	{	await this.terminate();
+	}
+
+	#post(message: ToWorkerMessage)
+	{	if (!this.#error)
+		{	this.#worker.postMessage(message);
+		}
+	}
+
+	#fail(error: Error)
+	{	if (!this.#error)
+		{	this.#error = error;
+			for (const {n} of this.#pending.values())
+			{	n(error);
+			}
+			this.#pending.clear();
+			this.#callbacks.clear();
+		}
+	}
+
+	#op(op: OpType, handle_id: number, path: string[], args: Any[]=[])
+	{	const message: ToWorkerMessage & {type: 'op'} = {type: 'op', id: ++this.#id_enum, op, handle_id, path, args: this.#encode(args)};
+		const promise = new Promise<Any>
+		(	(y, n) =>
+			{	if (this.#error)
+				{	n(this.#error);
+					return;
+				}
+				this.#pending.set(message.id, {y, n});
+			}
+		);
+		if (this.#queue.push(message) == 1)
+		{	queueMicrotask
+			(	() =>
+				{	const queue = this.#queue;
+					this.#queue = [];
+					for (const message of queue)
+					{	try
+						{	this.#post(message);
+						}
+						catch (e)
+						{	// arguments are not cloneable
+							const pending = this.#pending.get(message.id);
+							if (pending)
+							{	this.#pending.delete(message.id);
+								pending.n(e instanceof Error ? e : new Error(e+''));
+							}
+						}
+					}
+				}
+			);
+		}
+		return {message, promise};
+	}
+
+	async #on_message(message: FromWorkerMessage)
+	{	switch (message.type)
+		{	case 'result':
+			{	const pending = this.#pending.get(message.id);
+				if (pending)
+				{	this.#pending.delete(message.id);
+					if (message.error)
+					{	pending.n(unserialize_error(message.error));
+					}
+					else
+					{	pending.y(this.#decode(message.value));
+					}
+				}
+				break;
+			}
+			case 'callback':
+			{	const {id, callback_id, args} = message;
+				try
+				{	const callback = this.#callbacks.get(callback_id);
+					if (!callback)
+					{	throw new Error('Callback was released');
+					}
+					const value = await callback(...this.#decode(args));
+					this.#post({type: 'callback_result', id, value: this.#encode(value)});
+				}
+				catch (e)
+				{	this.#post({type: 'callback_result', id, error: serialize_error(e)});
+				}
+				break;
+			}
+			case 'release_callback':
+			{	const callback = this.#callbacks.get(message.callback_id);
+				if (callback)
+				{	this.#callbacks.delete(message.callback_id);
+					this.#callback_ids.delete(callback);
+				}
+				break;
+			}
+		}
+	}
+
+	/**	Replaces functions with callback IDs, and handles that this object created with their IDs.
+	 **/
+	#encode(value: Any): Any
+	{	if (typeof(value) == 'function')
+		{	const handle = this.#handles.get(value);
+			if (handle)
+			{	return {PHP_WORKER_HANDLE_ID: handle.handle_id};
+			}
+			let callback_id = this.#callback_ids.get(value);
+			if (callback_id == undefined)
+			{	callback_id = this.#callback_id_enum++;
+				this.#callbacks.set(callback_id, value);
+				this.#callback_ids.set(value, callback_id);
+			}
+			return {PHP_WORKER_CALLBACK_ID: callback_id};
+		}
+		if (value!=null && typeof(value)=='object' && is_plain(value))
+		{	if (Array.isArray(value))
+			{	return value.map(v => this.#encode(v));
+			}
+			const result: Record<string, Any> = {};
+			for (const [k, v] of Object.entries(value))
+			{	result[k] = this.#encode(v);
+			}
+			return result;
+		}
+		return value;
+	}
+
+	/**	Replaces handle IDs, that the worker sent, with objects, that access them.
+	 **/
+	#decode(value: Any): Any
+	{	if (value!=null && typeof(value)=='object' && is_plain(value))
+		{	if (Array.isArray(value))
+			{	return value.map(v => this.#decode(v));
+			}
+			if (typeof(value.PHP_WORKER_CALLBACK_ID)=='number' && Object.keys(value).length==1)
+			{	return this.#callbacks.get(value.PHP_WORKER_CALLBACK_ID);
+			}
+			if (typeof(value.PHP_WORKER_HANDLE_ID)=='number' && Object.keys(value).length==2)
+			{	const handle = this.#create_proxy(value.PHP_WORKER_HANDLE_ID, value.class_name);
+				this.#handles_registry.register(handle, value.PHP_WORKER_HANDLE_ID);
+				return handle;
+			}
+			const result: Record<string, Any> = {};
+			for (const [k, v] of Object.entries(value))
+			{	result[k] = this.#decode(v);
+			}
+			return result;
+		}
+		return value;
+	}
+
+	#create_proxy(handle_id: number, class_name: string)
+	{	const is_handle = handle_id!=G_HANDLE_ID && handle_id!=C_HANDLE_ID;
+		const handle = create_proxy
+		(	[],
+			class_name,
+
+			// get
+			path => prop_name => this.#op('get', handle_id, path.concat([prop_name])).promise,
+
+			// set
+			path => (prop_name, value) =>
+			{	this.#op('set', handle_id, path.concat([prop_name]), [value]).promise.catch(nop); // like `PhpInterpreter`, setters don't report errors
+				return true;
+			},
+
+			// deleteProperty
+			path => prop_name =>
+			{	this.#op('delete', handle_id, path.concat([prop_name])).promise.catch(nop);
+				return true;
+			},
+
+			// apply
+			path => args =>
+			{	const {message, promise} = this.#op('call', handle_id, path, [...args]);
+				const is_queued = () => this.#queue.includes(message);
+				Object.defineProperty
+				(	promise,
+					'this',
+					{	get()
+						{	if (!is_queued())
+							{	throw new Error('Access "this" right after the call');
+							}
+							message.op = 'call_this';
+							return promise;
+						}
+					}
+				);
+				return promise;
+			},
+
+			// construct
+			path => args => this.#op('construct', handle_id, path, [...args]).promise,
+
+			// hasInstance
+			path =>
+			{	const class_name = handle_id==C_HANDLE_ID ? path.join('\\') : '';
+				return inst => !!class_name && this.#handles.get(inst)?.class_name===class_name;
+			},
+
+			// asyncIterator
+			path =>
+			{	const begin = () => this.#op('iterate', handle_id, path).promise;
+				return async function*()
+				{	const iterator = await begin();
+					let is_done = false;
+					try
+					{	while (true)
+						{	const {value, done} = await iterator.next();
+							if (done)
+							{	is_done = true;
+								return value;
+							}
+							yield value;
+						}
+					}
+					finally
+					{	if (!is_done)
+						{	await iterator.return();
+						}
+						iterator[Symbol.dispose]();
+					}
+				};
+			},
+
+			undefined,
+
+			// dispose
+			!is_handle ? undefined : () =>
+			{	this.#op('dispose', handle_id, []).promise.catch(e => console.error(e));
+			},
+
+			// asyncDispose
+			!is_handle ? undefined : async () =>
+			{	await this.#op('dispose', handle_id, []).promise;
+			}
+		);
+		if (is_handle)
+		{	this.#handles.set(handle, {handle_id, class_name});
+		}
+		return handle;
+	}
+}
@@ -0,0 +1,189 @@
+/**	Entry point of the worker, that `PhpWorker` starts. It creates `PhpInterpreter`, and executes operations that `PhpWorker` sends.
+ **/
+
+import {PhpInterpreter} from './php_interpreter.ts';
+import {G_HANDLE_ID, C_HANDLE_ID, ToWorkerMessage, FromWorkerMessage, serialize_error, unserialize_error, is_plain} from './php_worker.ts';
+
+// deno-lint-ignore no-explicit-any
+type Any = any;
+
+const scope = globalThis as unknown as {postMessage(message: FromWorkerMessage): void, onmessage: ((e: MessageEvent<ToWorkerMessage>) => unknown) | null};
+
+let php: PhpInterpreter | undefined;
+let ready: Promise<unknown> = Promise.resolve();
+const handles = new Map<number, Any>; // objects, that the main thread has handles to
+let handle_id_enum = C_HANDLE_ID + 1;
+const callbacks = new Map<number, WeakRef<(...args: Any[]) => Any>>; // functions, that call callbacks in the main thread
+const callback_ids = new WeakMap<object, number>;
+const callbacks_registry = new FinalizationRegistry<number>
+(	callback_id =>
+	{	if (!callbacks.get(callback_id)?.deref())
+		{	callbacks.delete(callback_id);
+			scope.postMessage({type: 'release_callback', callback_id});
+		}
+	}
+);
+const pending_callbacks = new Map<number, {y: (value: Any) => void, n: (error: Error) => void}>;
+let callback_call_id_enum = 0;
+
+scope.onmessage = e =>
+{	const message = e.data;
+	switch (message.type)
+	{	case 'init':
+		{	const {settings, module} = message;
+			ready = (async () =>
+			{	php = new PhpInterpreter(settings);
+				if (module)
+				{	await import(module);
+				}
+			})();
+			break;
+		}
+		case 'op':
+		{	const {id} = message;
+			ready.then(() => perform(message)).then
+			(	value =>
+				{	try
+					{	scope.postMessage({type: 'result', id, value: encode(value)});
+					}
+					catch (e)
+					{	scope.postMessage({type: 'result', id, error: serialize_error(e)});
+					}
+				},
+				e =>
+				{	scope.postMessage({type: 'result', id, error: serialize_error(e)});
+				}
+			);
+			break;
+		}
+		case 'callback_result':
+		{	const pending = pending_callbacks.get(message.id);
+			if (pending)
+			{	pending_callbacks.delete(message.id);
+				if (message.error)
+				{	pending.n(unserialize_error(message.error));
+				}
+				else
+				{	pending.y(decode(message.value));
+				}
+			}
+			break;
+		}
+		case 'release':
+		{	handles.delete(message.handle_id);
+			break;
+		}
+	}
+};
+
+/**	Starts the operation on the interpreter (synchronously, so operations are queued in the order they were sent), and returns it's result.
+ **/
+function perform(message: ToWorkerMessage & {type: 'op'}): Any
+{	const {op, handle_id, path} = message;
+	const args = decode(message.args);
+	const root = handle_id==G_HANDLE_ID ? php!.g : handle_id==C_HANDLE_ID ? php!.c : handles.get(handle_id);
+	if (root == undefined)
+	{	throw new Error('Object handle was released');
+	}
+	let obj = root;
+	for (let i=0; i<path.length-1; i++)
+	{	obj = obj[path[i]];
+	}
+	const last = path[path.length-1];
+	switch (op)
+	{	case 'get':
+		{	const value = obj[last];
+			return typeof(value?.then)=='function' ? new Promise((y, n) => value.then(y, n)) : value;
+		}
+		case 'set':
+			obj[last] = args[0];
+			return;
+		case 'delete':
+			delete obj[last];
+			return;
+		case 'call':
+			return path.length==0 ? root(...args) : obj[last](...args);
+		case 'call_this':
+			return (path.length==0 ? root(...args) : obj[last](...args)).this;
+		case 'construct':
+		{	const constructor = path.length==0 ? root : obj[last];
+			return new constructor(...args);
+		}
+		case 'iterate':
+			return (path.length==0 ? root : obj[last])[Symbol.asyncIterator]();
+		case 'dispose':
+			handles.delete(handle_id);
+			return root[Symbol.asyncDispose] ? root[Symbol.asyncDispose]() : root[Symbol.dispose]?.();
+	}
+}
+
+/**	Values that can be passed to the main thread by value. Other objects are passed by handle.
+ **/
+function is_value(value: Any)
+{	return value instanceof Date || value instanceof RegExp || value instanceof Map || value instanceof Set || value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+function encode(value: Any): Any
+{	if (typeof(value) == 'function')
+	{	const callback_id = callback_ids.get(value);
+		if (callback_id != undefined)
+		{	return {PHP_WORKER_CALLBACK_ID: callback_id};
+		}
+	}
+	else if (value==null || typeof(value)!='object' || is_value(value))
+	{	return value;
+	}
+	else if (is_plain(value) && !(Symbol.asyncIterator in value))
+	{	if (Array.isArray(value))
+		{	return value.map(encode);
+		}
+		const result: Record<string, Any> = {};
+		for (const [k, v] of Object.entries(value))
+		{	result[k] = encode(v);
+		}
+		return result;
+	}
+	const handle_id = handle_id_enum++;
+	handles.set(handle_id, value);
+	const class_name = value[Symbol.toStringTag]; // for PHP objects this is the class name
+	return {PHP_WORKER_HANDLE_ID: handle_id, class_name: typeof(class_name)=='string' ? class_name : ''};
+}
+
+function decode(value: Any): Any
+{	if (value!=null && typeof(value)=='object' && is_plain(value))
+	{	if (Array.isArray(value))
+		{	return value.map(decode);
+		}
+		if (typeof(value.PHP_WORKER_CALLBACK_ID)=='number' && Object.keys(value).length==1)
+		{	return get_callback(value.PHP_WORKER_CALLBACK_ID);
+		}
+		if (typeof(value.PHP_WORKER_HANDLE_ID)=='number' && Object.keys(value).length==1)
+		{	return handles.get(value.PHP_WORKER_HANDLE_ID);
+		}
+		const result: Record<string, Any> = {};
+		for (const [k, v] of Object.entries(value))
+		{	result[k] = decode(v);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**	Returns function, that calls the callback in the main thread.
+ **/
+function get_callback(callback_id: number)
+{	let func = callbacks.get(callback_id)?.deref();
+	if (!func)
+	{	func = (...args: Any[]) => new Promise
+		(	(y, n) =>
+			{	const id = ++callback_call_id_enum;
+				pending_callbacks.set(id, {y, n});
+				scope.postMessage({type: 'callback', id, callback_id, args: encode(args)});
+			}
+		);
+		callbacks.set(callback_id, new WeakRef(func));
+		callback_ids.set(func, callback_id);
+		callbacks_registry.register(func, callback_id);
+	}
+	return func;
+}
@@ -22,10 +22,11 @@ export function create_proxy
 	dispose?: VoidFunction,
 	async_dispose?: () => Promise<void>,
 )
-{	return inst(path, {getter: undefined});
+{	return inst(path, {getter: undefined}, undefined);
 	function inst
 	(	path: string[],
-		parent_getter: {getter: ProxyGetterForPath | undefined}
+		parent_getter: {getter: ProxyGetterForPath | undefined},
+		owner: Any
 	): Any
 	{	let promise: Promise<Any> | undefined;
 		const for_getter = {getter: undefined};
@@ -35,9 +36,13 @@ export function create_proxy
 		let constructor: ProxyApplierForPath | undefined;
 		let has_instance: ProxyHasInstanceForPath | undefined;
 		let iterator: ProxyIteratorForPath | undefined;
+		const target = function() {}; // if this is not a function, construct() and apply() will throw error
+		if (owner)
+		{	(target as Any).owner = owner; // the object is kept alive while it's properties are in use (it can be released when garbage collected)
+		}
 		return new Proxy
-		(	function() {}, // if this is not a function, construct() and apply() will throw error
-			{	get(_, prop_name)
+		(	target,
+			{	get(_, prop_name, receiver)
 				{	if (typeof(prop_name) != 'string')
 					{	// case: +path or path+''
 						if (prop_name===alt_symbol_for_string_tag || prop_name==Symbol.toStringTag)
@@ -92,7 +97,7 @@ export function create_proxy
 					}
 					else
 					{	// case: path.prop_name
-						return inst(path.concat([prop_name]), for_getter);
+						return inst(path.concat([prop_name]), for_getter, owner ?? receiver);
 					}
 				},
 				set(_, prop_name, value) // set static class variable
@@ -0,0 +1,503 @@
+import {PhpInterpreter} from './php_interpreter.ts';
+import {InterpreterError} from './errors.ts';
+
+// deno-lint-ignore no-explicit-any
+type Any = any;
+
+const AsyncFunction = (async () => {}).constructor as new (...args: string[]) => (...args: Any[]) => Promise<Any>;
+
+const RE_JS_DECL = /^\s*(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=(?!=)/;
+const RE_PHP_STATEMENT = /^\s*(?:echo|return|if|for|foreach|while|do|switch|function|class|interface|trait|enum|abstract|final|readonly|namespace|use|try|throw|unset|global|static|declare)\b|;\s*\S/i;
+const RE_PHP_VAR = /\$([A-Za-z_\x80-\uFFFF][\w\x80-\uFFFF]*)/g;
+const PHP_SUPERGLOBALS = new Set(['this', 'GLOBALS', '_SERVER', '_GET', '_POST', '_FILES', '_COOKIE', '_SESSION', '_REQUEST', '_ENV']);
+
+/**	PHP code, that returns names for completion.
+ **/
+const PHP_NAMES = String.raw
+`	return (function()
+	{	$not_internal = function($name)
+		{	return strncasecmp($name, 'DenoWorld', 9)!=0 && strncasecmp($name, 'deno_world', 10)!=0;
+		};
+		$funcs = get_defined_functions();
+		return
+		[	'functions' => array_values(array_filter(array_merge($funcs['internal'], $funcs['user']), $not_internal)),
+			'classes' => array_values(array_filter(array_merge(get_declared_classes(), get_declared_interfaces(), get_declared_traits()), $not_internal)),
+			'constants' => array_keys(get_defined_constants()),
+			'variables' => array_keys($GLOBALS),
+		];
+	})();
+`;
+
+const HELP =
+`Enter JavaScript expressions, that use \`g\`, \`c\` and \`php\`, like \`g.phpversion()\`. Results are awaited. Type annotations are not supported.
+Variables declared with \`const\`, \`let\` or \`var\` are kept between lines.
+In PHP mode, enter PHP code, like \`$a = array_sum([1, 2])\`. Variables are global, so they're kept between lines, and are available as \`g.$a\`.
+End line with \`\\\` to continue on the next line. Press Tab to complete PHP names.
+
+.ts        Switch to JavaScript mode
+.php       Switch to PHP mode
+.ts CODE   Evaluate JavaScript in PHP mode
+.php CODE  Evaluate PHP code in JavaScript mode
+.names     Reload names for completion
+.help      Print this help
+.exit      Exit`;
+
+export interface PhpReplOptions
+{	/**	Initial mode: `ts` for JavaScript expressions against `g` and `c` (evaluated as JavaScript, so without type annotations), or `php` for PHP code. Default: `ts`.
+	 **/
+	mode?: 'ts' | 'php';
+
+	/**	File where to keep history of entered lines. Empty string means don't keep history. Default: `~/.php_world_repl_history`.
+	 **/
+	history_file?: string;
+
+	/**	How many lines to keep in the history. Default: 1000.
+	 **/
+	history_size?: number;
+
+	/**	Use terminal colors when printing results. Default: true if stdout is terminal, and `NO_COLOR` is not set.
+	 **/
+	colors?: boolean;
+}
+
+interface Names
+{	functions: string[];
+	classes: string[];
+	constants: string[];
+	variables: string[];
+}
+
+/**	Read-eval-print loop, that evaluates JavaScript expressions against `php.g` and `php.c`, or PHP code (through `php.g.eval()`).
+
+	```ts
+	const repl = new PhpRepl(new PhpInterpreter);
+	await repl.run();
+	```
+ **/
+export class PhpRepl
+{	/**	Current mode: `ts` for JavaScript, and `php` for PHP code.
+	 **/
+	mode: 'ts' | 'php';
+
+	#php: PhpInterpreter;
+	#history_file: string;
+	#history_size: number;
+	#colors: boolean;
+	#history = new Array<string>;
+	#scope: Record<string, Any>;
+	#names: Names | undefined;
+
+	constructor(php: PhpInterpreter, options?: PhpReplOptions)
+	{	this.#php = php;
+		this.mode = options?.mode ?? 'ts';
+		const home = Deno.env.get('HOME') ?? Deno.env.get('USERPROFILE');
+		this.#history_file = options?.history_file ?? (home ? home+'/.php_world_repl_history' : '');
+		this.#history_size = options?.history_size ?? 1000;
+		this.#colors = options?.colors ?? (Deno.stdout.isTerminal() && !Deno.noColor);
+		this.#scope = {g: php.g, c: php.c, php, InterpreterError};
+	}
+
+	/**	Evaluates one input (code or command), and returns what to print. Errors are caught and returned formatted.
+	 **/
+	async eval(input: string): Promise<string>
+	{	const command = input.trim().match(/^\.(ts|php|names|help)(?:\s+([\s\S]*))?$/);
+		let mode = this.mode;
+		if (command)
+		{	const [, name, code] = command;
+			if (name=='ts' || name=='php')
+			{	if (!code)
+				{	this.mode = name;
+					return `Switched to ${name=='ts' ? 'JavaScript' : 'PHP'} mode`;
+				}
+				mode = name;
+				input = code;
+			}
+			else if (name == 'names')
+			{	this.#names = undefined;
+				await this.#get_names();
+				return '';
+			}
+			else
+			{	return HELP;
+			}
+		}
+		if (!input.trim())
+		{	return '';
+		}
+		try
+		{	const result = mode=='ts' ? await this.#eval_js(input) : await this.#eval_php(input);
+			if (mode == 'php')
+			{	this.#names = undefined; // the code could declare new functions or classes
+			}
+			return result===undefined ? '' : this.format_value(result);
+		}
+		catch (e)
+		{	return this.format_error(e);
+		}
+	}
+
+	/**	Evaluates JavaScript (not TypeScript: there's no transpiler here, so type annotations are syntax errors).
+	 **/
+	async #eval_js(code: string)
+	{	const decl = code.match(RE_JS_DECL);
+		if (decl)
+		{	code = code.slice(decl[0].length - 1);
+			if (!(decl[1] in this.#scope))
+			{	this.#scope[decl[1]] = undefined;
+			}
+			code = decl[1] + code;
+		}
+		let func;
+		try
+		{	func = new AsyncFunction('__scope__', `with (__scope__) { return ${decl ? 'void ' : ''}(${code}\n); }`);
+		}
+		catch (e)
+		{	if (!(e instanceof SyntaxError))
+			{	throw e;
+			}
+			func = new AsyncFunction('__scope__', `with (__scope__) { ${code}\n}`);
+		}
+		return await func(this.#scope);
+	}
+
+	#eval_php(code: string)
+	{	code = code.trim();
+		if (code.startsWith('<?php'))
+		{	code = code.slice(5);
+		}
+		if (!RE_PHP_STATEMENT.test(code))
+		{	code = 'return '+code.replace(/;\s*$/, '');
+		}
+		if (!/[;}]\s*$/.test(code))
+		{	code += ';';
+		}
+		const vars = new Set<string>;
+		for (const [, name] of code.matchAll(RE_PHP_VAR))
+		{	if (!PHP_SUPERGLOBALS.has(name))
+			{	vars.add('$'+name);
+			}
+		}
+		if (vars.size)
+		{	code = `global ${[...vars].join(', ')}; ${code}`;
+		}
+		return this.#php.g.eval(code);
+	}
+
+	/**	Returns printable representation of a value.
+	 **/
+	format_value(value: unknown)
+	{	return Deno.inspect(replace_handles(value, 0), {colors: this.#colors, depth: 6, strAbbreviateSize: 1000});
+	}
+
+	/**	Returns printable representation of an error. For `InterpreterError` prints PHP class, location and PHP stack trace.
+	 **/
+	format_error(error: unknown): string
+	{	if (error instanceof InterpreterError)
+		{	let str = this.#color(`${error.phpClass || 'Error'}: ${error.message}`, 31);
+			if (error.fileName)
+			{	str += '\n' + this.#color(`    at ${error.fileName}:${error.lineNumber}`, 2);
+			}
+			for (const line of error.phpStack.split('\n'))
+			{	if (line.trim())
+				{	str += '\n' + this.#color('    '+line.trim(), 2);
+				}
+			}
+			if (error.cause)
+			{	str += '\nCaused by: ' + this.format_error(error.cause);
+			}
+			return str;
+		}
+		if (error instanceof Error)
+		{	return this.#color(error.stack ?? `${error.name}: ${error.message}`, 31);
+		}
+		return this.#color('Uncaught '+Deno.inspect(error), 31);
+	}
+
+	#color(str: string, code: number)
+	{	return this.#colors ? `\x1B[${code}m${str}\x1B[0m` : str;
+	}
+
+	/**	Returns completion candidates for the word before `cursor`, and position where this word starts.
+		In JavaScript mode completes PHP names after `g.` (functions, constants, namespaces and `$variables`) and `c.` (classes).
+	 **/
+	async complete(line: string, cursor=line.length)
+	{	const before = line.slice(0, cursor);
+		const names = await this.#get_names();
+		let from = cursor;
+		let candidates = new Array<string>;
+		if (this.mode == 'ts')
+		{	const m = before.match(/(?:^|[^\w$.])([gc])((?:\.[\w$]+)*)\.([\w$]*)$/);
+			if (m)
+			{	const [, obj, ns, prefix] = m;
+				from = cursor - prefix.length;
+				const path = ns.slice(1).split('.').filter(p => p).map(p => p.toLowerCase());
+				const fqns = obj=='c' ? names.classes : names.functions.concat(names.constants);
+				const found = new Set<string>;
+				for (const fqn of fqns)
+				{	const parts = fqn.split('\\');
+					if (parts.length>path.length && path.every((p, i) => parts[i].toLowerCase()==p) && parts[path.length].toLowerCase().startsWith(prefix.toLowerCase()))
+					{	found.add(parts[path.length]);
+					}
+				}
+				if (obj=='g' && path.length==0)
+				{	for (const name of names.variables)
+					{	if (('$'+name).startsWith(prefix))
+						{	found.add('$'+name);
+						}
+					}
+				}
+				candidates = [...found];
+			}
+		}
+		else
+		{	const m = before.match(/(\$?)([\w\\]*)$/);
+			if (m && (m[1] || m[2]))
+			{	const [word, dollar, prefix] = m;
+				from = cursor - word.length;
+				if (dollar)
+				{	candidates = names.variables.filter(n => n.startsWith(prefix)).map(n => '$'+n);
+				}
+				else
+				{	const lc = prefix.toLowerCase().replace(/^\\/, '');
+					candidates = names.functions.concat(names.classes, names.constants).filter(n => n.toLowerCase().startsWith(lc));
+				}
+			}
+		}
+		return {from, candidates: candidates.sort()};
+	}
+
+	async #get_names()
+	{	if (!this.#names)
+		{	this.#names = await this.#php.g.eval(PHP_NAMES) as Names;
+		}
+		return this.#names;
+	}
+
+	/**	Runs the loop on stdin and stdout, till `.exit` or end of input.
+		If stdin is a terminal, supports line editing, history (up/down keys) and completion (Tab key).
+	 **/
+	async run()
+	{	await this.#load_history();
+		const is_terminal = Deno.stdin.isTerminal();
+		const lines = is_terminal ? undefined : read_lines();
+		const write = (str: string) => Deno.stdout.writeSync(new TextEncoder().encode(str));
+		if (is_terminal)
+		{	write(`PHP ${await this.#php.g.phpversion()} (Deno ${Deno.version.deno}). Type .help for help.\n`);
+		}
+		while (true)
+		{	let input = '';
+			while (true)
+			{	const prompt = input ? '... ' : this.mode=='ts' ? 'ts> ' : 'php> ';
+				const line = lines ? (await lines.next()).value : await read_line(prompt, this.#history, (line, cursor) => this.complete(line, cursor), write);
+				if (line == undefined)
+				{	return;
+				}
+				if (!line.endsWith('\\'))
+				{	input += line;
+					break;
+				}
+				input += line.slice(0, -1) + '\n';
+			}
+			if (input.trim() == '.exit')
+			{	return;
+			}
+			if (input.trim())
+			{	await this.#add_history(input);
+			}
+			const output = await this.eval(input);
+			if (output)
+			{	write(output+'\n');
+			}
+		}
+	}
+
+	async #load_history()
+	{	if (this.#history_file)
+		{	try
+			{	this.#history = (await Deno.readTextFile(this.#history_file)).split('\n').filter(l => l).map(l => JSON.parse(l));
+			}
+			catch (e)
+			{	if (!(e instanceof Deno.errors.NotFound))
+				{	console.error(`Cannot read REPL history from ${this.#history_file}: ${e instanceof Error ? e.message : e}`);
+				}
+			}
+		}
+	}
+
+	async #add_history(input: string)
+	{	if (this.#history[this.#history.length-1] != input)
+		{	this.#history.push(input);
+			if (this.#history.length > this.#history_size)
+			{	this.#history.splice(0, this.#history.length-this.#history_size);
+			}
+			if (this.#history_file)
+			{	try
+				{	await Deno.writeTextFile(this.#history_file, this.#history.map(l => JSON.stringify(l)+'\n').join(''));
+				}
+				catch (e)
+				{	console.error(`Cannot write REPL history to ${this.#history_file}: ${e instanceof Error ? e.message : e}`);
+				}
+			}
+		}
+	}
+}
+
+/**	Replaces PHP object handles (that are proxies) with objects, that `Deno.inspect()` can print.
+ **/
+function replace_handles(value: Any, depth: number): Any
+{	if (typeof(value)=='function' && typeof(value.name)!='string') // proxy returns function for any property name
+	{	const class_name = value[Symbol.toStringTag];
+		const str = class_name ? `[PHP object ${class_name}]` : '[PHP proxy]';
+		return {[Symbol.for('Deno.customInspect')]: () => str};
+	}
+	if (depth<6 && value!=null && typeof(value)=='object')
+	{	const proto = Object.getPrototypeOf(value);
+		if (Array.isArray(value))
+		{	return value.map(v => replace_handles(v, depth+1));
+		}
+		if (proto==Object.prototype || proto==null)
+		{	const result: Record<string, Any> = {};
+			for (const [k, v] of Object.entries(value))
+			{	result[k] = replace_handles(v, depth+1);
+			}
+			return result;
+		}
+	}
+	return value;
+}
+
+async function *read_lines()
+{	let buffer = '';
+	for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream))
+	{	buffer += chunk;
+		let pos;
+		while ((pos = buffer.indexOf('\n')) != -1)
+		{	yield buffer.slice(0, pos).replace(/\r$/, '');
+			buffer = buffer.slice(pos+1);
+		}
+	}
+	if (buffer)
+	{	yield buffer;
+	}
+}
+
+/**	Reads line from terminal in raw mode. Returns undefined on Ctrl+D.
+ **/
+async function read_line(prompt: string, history: string[], complete: (line: string, cursor: number) => Promise<{from: number, candidates: string[]}>, write: (str: string) => void)
+{	let line = '';
+	let cursor = 0;
+	let history_pos = history.length;
+	let saved_line = '';
+	const render = () => write(`\r\x1B[K${prompt}${line.replaceAll('\n', ' ')}` + (cursor<line.length ? `\x1B[${line.length-cursor}D` : ''));
+	const decoder = new TextDecoder;
+	const buffer = new Uint8Array(1024);
+	render();
+	Deno.stdin.setRaw(true);
+	try
+	{	while (true)
+		{	const n = await Deno.stdin.read(buffer);
+			if (n == null)
+			{	return;
+			}
+			const input = decoder.decode(buffer.subarray(0, n), {stream: true});
+			for (let i=0; i<input.length; i++)
+			{	const c = input[i];
+				if (c == '\x1B')
+				{	const seq = input.slice(i+1).match(/^(?:\[|O)([0-9;]*)([A-Za-z~])/);
+					if (!seq)
+					{	continue;
+					}
+					i += seq[0].length;
+					const key = seq[2]=='~' ? seq[1] : seq[2];
+					if (key=='A' || key=='B')
+					{	// up or down: history
+						if (history_pos == history.length)
+						{	saved_line = line;
+						}
+						history_pos = Math.max(0, Math.min(history.length, history_pos + (key=='A' ? -1 : 1)));
+						line = history_pos==history.length ? saved_line : history[history_pos];
+						cursor = line.length;
+					}
+					else if (key == 'C')
+					{	cursor = Math.min(line.length, cursor+1);
+					}
+					else if (key == 'D')
+					{	cursor = Math.max(0, cursor-1);
+					}
+					else if (key=='H' || key=='1')
+					{	cursor = 0;
+					}
+					else if (key=='F' || key=='4')
+					{	cursor = line.length;
+					}
+					else if (key == '3')
+					{	line = line.slice(0, cursor) + line.slice(cursor+1);
+					}
+				}
+				else if (c=='\r' || c=='\n')
+				{	cursor = line.length;
+					render();
+					write('\r\n');
+					return line;
+				}
+				else if (c == '\x03')
+				{	// Ctrl+C: discard the line
+					write('^C\r\n');
+					line = '';
+					cursor = 0;
+					history_pos = history.length;
+				}
+				else if (c == '\x04')
+				{	// Ctrl+D: exit on empty line
+					if (!line)
+					{	write('\r\n');
+						return;
+					}
+				}
+				else if (c=='\x7F' || c=='\b')
+				{	if (cursor > 0)
+					{	line = line.slice(0, cursor-1) + line.slice(cursor);
+						cursor--;
+					}
+				}
+				else if (c == '\x01')
+				{	cursor = 0;
+				}
+				else if (c == '\x05')
+				{	cursor = line.length;
+				}
+				else if (c == '\t')
+				{	let from, candidates;
+					try
+					{	({from, candidates} = await complete(line, cursor));
+					}
+					catch
+					{	continue;
+					}
+					const word = line.slice(from, cursor);
+					let common = candidates[0] ?? '';
+					for (const cand of candidates)
+					{	while (!cand.toLowerCase().startsWith(common.toLowerCase()))
+						{	common = common.slice(0, -1);
+						}
+					}
+					if (common.length > word.length)
+					{	line = line.slice(0, from) + common + line.slice(cursor);
+						cursor = from + common.length;
+					}
+					else if (candidates.length > 1)
+					{	write('\r\n' + candidates.slice(0, 200).join('  ') + (candidates.length>200 ? '  ...' : '') + '\r\n');
+					}
+				}
+				else if (c >= ' ')
+				{	line = line.slice(0, cursor) + c + line.slice(cursor);
+					cursor++;
+				}
+			}
+			render();
+		}
+	}
+	finally
+	{	Deno.stdin.setRaw(false);
+	}
+}
@@ -1,14 +1,20 @@
 import {PhpInterpreter} from './php_interpreter.ts';
-import {fcgi, ServerRequest} from './deps.ts';
+import {fcgi, ServerRequest, ResponseWithCookies} from './deps.ts';
 import {PhpSettings} from './php_settings.ts';
+import {PhpFpmListen} from './php_fpm_backends.ts';
+import {serve_static_file, StaticFileOptions} from './static_files.ts';
 
 const RE_FIX_SCRIPT_FILENAME = /^(?:(?:[\w\-]+:){1,2}\/\/[^\/]+)?(?:\/(?=\/))*/; // if SetHandler is used in Apache, it sends requests prefixed with "proxy:fcgi://localhost/", or what appears in the "SetHandler"
 
 export interface ProxyOptions
 {	frontend_listen: string | number;
-	backend_listen: string;
+	/**	PHP-FPM service address, or list of backends (see `PhpFpmSettings.listen`).
+	 **/
+	backend_listen: PhpFpmListen;
 	max_conns?: number;
 	connect_timeout?: number;
+	retries?: number;
+	fail_timeout?: number;
 	keep_alive_timeout?: number;
 	keep_alive_max?: number;
 	unix_socket_name?: string;
@@ -18,10 +24,45 @@ export interface ProxyOptions
 	max_name_length?: number;
 	max_value_length?: number;
 	max_file_size?: number;
-	onrequest: (request: PhpRequest) => Promise<void>;
+	/**	Functions, that are called in order for each request, before routes and `onrequest`.
+		Each middleware can inspect the request, respond without calling `next()` to stop processing, or call `await next()` to pass the request further.
+		To modify responses that PHP returns, middleware can add response filters with `php.add_response_filter()`.
+	 **/
+	middleware?: ProxyMiddleware[];
+	/**	Routes, that are checked in order for each request. The first route whose `path` matches the request path handles the request.
+		If no route matches, `onrequest` is called.
+	 **/
+	routes?: ProxyRoute[];
+	/**	Options for serving static files by `static` routes and by `php.serve_static()`.
+	 **/
+	static_files?: StaticFileOptions;
+	/**	Called for requests that don't match any route. If not given, such requests get 404 response.
+	 **/
+	onrequest?: (request: PhpRequest) => Promise<void>;
 	onerror?: (error: Error) => void;
 }
 
+export type ProxyMiddleware = (request: PhpRequest, next: () => Promise<void>) => Promise<unknown>;
+
+/**	Function, that receives response from PHP before it's sent to the client. It can modify the response, or return another one.
+	If it returns nothing, the same response is used.
+ **/
+export type ResponseFilter = (response: ResponseWithCookies) => ResponseWithCookies | void | Promise<ResponseWithCookies | void>;
+
+export interface ProxyRoute
+{	/**	Pattern for the request path (without query string). String pattern matches the whole path, and `*` in it matches any characters (including `/`),
+		so `*.css` matches all CSS files, and `/api/*` matches everything under `/api/`. RegExp is tested against the path as is.
+	 **/
+	path: string | RegExp;
+
+	/**	What to do with matching requests:
+		- `static` - serve file from the document root (if the file is not found, the response is 404).
+		- `php` - forward the request to PHP-FPM (like `php.proxy()`).
+		- function - handle the request in Deno (like `onrequest`).
+	 **/
+	action: 'static' | 'php' | ((request: PhpRequest) => Promise<unknown>);
+}
+
 interface ProxyRequestOptions
 {	/**	Callback that catches output of PHP `error_log($msg, 0)` and `error_log($msg, 4)`.
 		If not assigned, will print to `Deno.stderr`.
@@ -31,9 +72,12 @@ interface ProxyRequestOptions
 
 export class PhpRequest extends PhpInterpreter
 {	public script_filename: string;
+	#static_files: StaticFileOptions|undefined;
+	#response_filters = new Array<ResponseFilter>;
 
-	constructor(public request: ServerRequest)
+	constructor(public request: ServerRequest, static_files?: StaticFileOptions)
 	{	super();
+		this.#static_files = static_files;
 		const script_filename = request.params.get('SCRIPT_FILENAME');
 		this.script_filename = script_filename==undefined ? '' : script_filename.replace(RE_FIX_SCRIPT_FILENAME, '');
 		this.settings.php_fpm.request = (request.params.get('HTTPS')=='on' ? 'https://' : 'http://') + request.params.get('HTTP_HOST') + request.url;
@@ -53,7 +97,10 @@ export class PhpRequest extends PhpInterpreter
 		};
 		this.settings.php_fpm.onlogerror = options?.onlogerror;
 		this.settings.php_fpm.onresponse = async response =>
-		{	status = response.status;
+		{	for (let i=this.#response_filters.length-1; i>=0; i--)
+			{	response = await this.#response_filters[i](response) ?? response;
+			}
+			status = response.status;
 			await this.request.respond
 			(	{	status: response.status,
 					headers: response.headers,
@@ -71,19 +118,36 @@ export class PhpRequest extends PhpInterpreter
 		}
 		return status;
 	}
+
+	/**	Adds function, that will receive the response from PHP (see `proxy()`) before it's sent to the client.
+		Filters added later are applied first, so filter of the outer middleware sees what inner middlewares produced.
+	 **/
+	add_response_filter(filter: ResponseFilter)
+	{	this.#response_filters.push(filter);
+	}
+
+	/**	Serves static file from the document root (`DOCUMENT_ROOT` FastCGI param, or `options.document_root`), that corresponds to the request path.
+		Returns HTTP status code, or 0 if there's no such file (in this case no response is sent).
+	 **/
+	serve_static(options?: StaticFileOptions)
+	{	return serve_static_file(this.request, {...this.#static_files, ...options});
+	}
 }
 
 export function start_proxy(options: ProxyOptions)
-{	const {frontend_listen, backend_listen, max_conns, connect_timeout, keep_alive_timeout, keep_alive_max, unix_socket_name, localhost_name, localhost_name_bind, interpreter_script, max_name_length, max_value_length, max_file_size, onrequest, onerror} = options;
+{	const {frontend_listen, backend_listen, max_conns, connect_timeout, retries, fail_timeout, keep_alive_timeout, keep_alive_max, unix_socket_name, localhost_name, localhost_name_bind, interpreter_script, max_name_length, max_value_length, max_file_size, middleware, routes, static_files, onrequest, onerror} = options;
 	const default_settings = new PhpSettings;
 	const set_max_conns = max_conns ?? default_settings.php_fpm.max_conns;
 	const set_connect_timeout = connect_timeout ?? default_settings.php_fpm.connect_timeout;
+	const set_retries = retries ?? default_settings.php_fpm.retries;
+	const set_fail_timeout = fail_timeout ?? default_settings.php_fpm.fail_timeout;
 	const set_keep_alive_timeout = keep_alive_timeout ?? default_settings.php_fpm.keep_alive_timeout;
 	const set_keep_alive_max = keep_alive_max ?? default_settings.php_fpm.keep_alive_max;
 	const set_unix_socket_name = unix_socket_name ?? default_settings.unix_socket_name;
 	const set_localhost_name = localhost_name ?? default_settings.localhost_name;
 	const set_localhost_name_bind = localhost_name_bind ?? default_settings.localhost_name_bind;
 	const set_interpreter_script = interpreter_script ?? default_settings.interpreter_script;
+	const routes_re = routes?.map(r => ({re: typeof(r.path)=='string' ? path_pattern_to_regexp(r.path) : r.path, action: r.action})) ?? [];
 
 	if (onerror)
 	{	fcgi.onError(onerror);
@@ -102,11 +166,13 @@ export function start_proxy(options: ProxyOptions)
 	(	frontend_listen,
 		'',
 		async request =>
-		{	const php = new PhpRequest(request);
+		{	const php = new PhpRequest(request, static_files);
 			php.settings.php_fpm.listen = backend_listen;
 			php.settings.php_fpm.params = request.params;
 			php.settings.php_fpm.max_conns = set_max_conns;
 			php.settings.php_fpm.connect_timeout = set_connect_timeout;
+			php.settings.php_fpm.retries = set_retries;
+			php.settings.php_fpm.fail_timeout = set_fail_timeout;
 			php.settings.php_fpm.keep_alive_timeout = set_keep_alive_timeout;
 			php.settings.php_fpm.keep_alive_max = set_keep_alive_max;
 			php.settings.unix_socket_name = set_unix_socket_name;
@@ -114,8 +180,43 @@ export function start_proxy(options: ProxyOptions)
 			php.settings.localhost_name_bind = set_localhost_name_bind;
 			php.settings.interpreter_script = set_interpreter_script;
 
+			const handle = async () =>
+			{	const pathname = new URL(request.url, 'http://localhost').pathname;
+				const route = routes_re.find(r => r.re.test(pathname));
+				if (!route)
+				{	await onrequest?.(php);
+				}
+				else if (route.action == 'static')
+				{	await php.serve_static();
+				}
+				else if (route.action == 'php')
+				{	await php.proxy();
+				}
+				else
+				{	await route.action(php);
+				}
+			};
+
+			const dispatch = async (i: number): Promise<void> =>
+			{	if (!middleware || i>=middleware.length)
+				{	await handle();
+					return;
+				}
+				let is_called = false;
+				await middleware[i]
+				(	php,
+					() =>
+					{	if (is_called)
+						{	throw new Error('next() called multiple times');
+						}
+						is_called = true;
+						return dispatch(i + 1);
+					}
+				);
+			};
+
 			try
-			{	await onrequest(php);
+			{	await dispatch(0);
 			}
 			finally
 			{	await php.g.exit();
@@ -150,3 +251,7 @@ export function start_proxy(options: ProxyOptions)
 
 	return handle;
 }
+
+function path_pattern_to_regexp(pattern: string)
+{	return new RegExp('^' + pattern.split('*').map(p => p.replace(/[.+?^${}()|[\]\\\/]/g, '\\$&')).join('.*') + '$');
+}
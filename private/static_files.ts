@@ -0,0 +1,258 @@
+import {path, ServerRequest} from './deps.ts';
+
+const MIME_TYPES: Record<string, string> =
+{	html: 'text/html; charset=utf-8',
+	htm: 'text/html; charset=utf-8',
+	css: 'text/css; charset=utf-8',
+	js: 'text/javascript; charset=utf-8',
+	mjs: 'text/javascript; charset=utf-8',
+	json: 'application/json',
+	map: 'application/json',
+	txt: 'text/plain; charset=utf-8',
+	csv: 'text/csv; charset=utf-8',
+	xml: 'application/xml',
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	ico: 'image/x-icon',
+	bmp: 'image/bmp',
+	woff: 'font/woff',
+	woff2: 'font/woff2',
+	ttf: 'font/ttf',
+	otf: 'font/otf',
+	eot: 'application/vnd.ms-fontobject',
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	gz: 'application/gzip',
+	wasm: 'application/wasm',
+	mp3: 'audio/mpeg',
+	ogg: 'audio/ogg',
+	wav: 'audio/wav',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+};
+
+const CHUNK_SIZE = 64*1024;
+
+export interface StaticFileOptions
+{	/**	Directory from where to serve files. Default: `DOCUMENT_ROOT` FastCGI param of the request.
+	 **/
+	document_root?: string;
+
+	/**	Additional or overridden MIME types by file extension (without dot), like `{md: 'text/markdown'}`.
+		Files with unknown extensions are served as `application/octet-stream`.
+	 **/
+	mime_types?: Record<string, string>;
+
+	/**	Value for `Cache-Control: max-age=...` header in seconds. If not set, the header is not sent.
+	 **/
+	max_age?: number;
+
+	/**	Files to try, when directory is requested. Default: `['index.html']`.
+	 **/
+	index?: string[];
+}
+
+/**	Serves file from document root, that corresponds to the request path.
+	Supports `HEAD` requests, `ETag` and `Last-Modified` validation (responds with 304), and single `Range` requests (responds with 206 or 416).
+	Files and directories whose name starts with dot are not served.
+	Returns HTTP status code, or 0 if the file was not found, and so no response was sent.
+ **/
+export async function serve_static_file(request: ServerRequest, options?: StaticFileOptions)
+{	const method = request.params.get('REQUEST_METHOD') ?? 'GET';
+	const document_root = options?.document_root ?? request.params.get('DOCUMENT_ROOT') ?? '';
+	if (!document_root)
+	{	return 0;
+	}
+	const filename = await find_file(document_root, request.url, options?.index ?? ['index.html']);
+	if (!filename)
+	{	return 0;
+	}
+	const headers = new Headers;
+	if (method!='GET' && method!='HEAD')
+	{	headers.set('allow', 'GET, HEAD');
+		await request.respond({status: 405, headers});
+		return 405;
+	}
+
+	const file = await Deno.open(filename, {read: true});
+	let is_sent = false;
+	try
+	{	const stat = await file.stat();
+		const mtime = stat.mtime ?? new Date(0);
+		const etag = `"${stat.size.toString(16)}-${mtime.getTime().toString(16)}"`; // strong, so it can be used in `If-Range`
+		const last_modified = mtime.toUTCString();
+		const ext = path.extname(filename).slice(1).toLowerCase();
+		headers.set('content-type', options?.mime_types?.[ext] ?? MIME_TYPES[ext] ?? 'application/octet-stream');
+		headers.set('etag', etag);
+		headers.set('last-modified', last_modified);
+		headers.set('accept-ranges', 'bytes');
+		if (options?.max_age != undefined)
+		{	headers.set('cache-control', `max-age=${options.max_age}`);
+		}
+
+		// 1. Not modified?
+		if (is_not_modified(request.headers, etag, mtime))
+		{	await request.respond({status: 304, headers});
+			return 304;
+		}
+
+		// 2. Range?
+		let status = 200;
+		let start = 0;
+		let length = stat.size;
+		const range = request.headers.get('range');
+		if (range && is_range_fresh(request.headers.get('if-range'), etag, last_modified))
+		{	const parsed = parse_range(range, stat.size);
+			if (parsed == 'unsatisfiable')
+			{	headers.set('content-range', `bytes */${stat.size}`);
+				await request.respond({status: 416, headers});
+				return 416;
+			}
+			if (parsed)
+			{	status = 206;
+				start = parsed.start;
+				length = parsed.end - parsed.start + 1;
+				headers.set('content-range', `bytes ${parsed.start}-${parsed.end}/${stat.size}`);
+			}
+		}
+		headers.set('content-length', length+'');
+
+		// 3. Send
+		if (method=='HEAD' || length==0)
+		{	await request.respond({status, headers});
+			return status;
+		}
+		if (start > 0)
+		{	await file.seek(start, Deno.SeekMode.Start);
+		}
+		is_sent = true;
+		await request.respond({status, headers, body: read_file_stream(file, length)});
+		return status;
+	}
+	finally
+	{	if (!is_sent)
+		{	file.close();
+		}
+	}
+}
+
+/**	Returns the file, that the request url refers to, or empty string if it doesn't exist.
+ **/
+async function find_file(document_root: string, url: string, index: string[])
+{	let pathname;
+	try
+	{	pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+	}
+	catch
+	{	return '';
+	}
+	if (pathname.includes('\0') || pathname.split('/').some(p => p.startsWith('.')))
+	{	return ''; // hidden files, and "." and ".." are not allowed
+	}
+	const filename = path.join(document_root, pathname);
+	try
+	{	const stat = await Deno.stat(filename);
+		if (stat.isFile)
+		{	return filename;
+		}
+		if (stat.isDirectory)
+		{	for (const name of index)
+			{	const index_filename = path.join(filename, name);
+				const index_stat = await Deno.stat(index_filename).catch(() => undefined);
+				if (index_stat?.isFile)
+				{	return index_filename;
+				}
+			}
+		}
+	}
+	catch (e)
+	{	if (!(e instanceof Deno.errors.NotFound || e instanceof Deno.errors.NotADirectory || e instanceof Deno.errors.PermissionDenied))
+		{	throw e;
+		}
+	}
+	return '';
+}
+
+function is_not_modified(request_headers: Headers, etag: string, mtime: Date)
+{	const if_none_match = request_headers.get('if-none-match');
+	if (if_none_match != null)
+	{	return if_none_match.trim()=='*' || if_none_match.split(',').some(t => t.trim().replace(/^W\//, '') == etag); // weak comparison
+	}
+	const if_modified_since = request_headers.get('if-modified-since');
+	if (if_modified_since != null)
+	{	const since = Date.parse(if_modified_since);
+		return !isNaN(since) && Math.floor(mtime.getTime()/1000) <= Math.floor(since/1000);
+	}
+	return false;
+}
+
+/**	`If-Range` header allows to apply `Range` only if the file was not modified.
+	ETags are compared with strong comparison (RFC 9110), so weak ETag (`W/"..."`) never matches, and the whole file is sent.
+ **/
+function is_range_fresh(if_range: string|null, etag: string, last_modified: string)
+{	if (if_range == null)
+	{	return true;
+	}
+	if_range = if_range.trim();
+	return !if_range.startsWith('W/') && (if_range==etag || if_range==last_modified);
+}
+
+/**	Parses `Range` header. Supports single range only, and returns undefined for multiple ranges and invalid headers (so the whole file will be sent).
+ **/
+export function parse_range(range: string, size: number): {start: number, end: number} | 'unsatisfiable' | undefined
+{	const m = range.trim().match(/^bytes=(\d*)-(\d*)$/);
+	if (!m || !m[1] && !m[2])
+	{	return;
+	}
+	let start, end;
+	if (!m[1])
+	{	// last N bytes
+		const suffix = Number(m[2]);
+		if (suffix == 0)
+		{	return 'unsatisfiable';
+		}
+		start = Math.max(0, size - suffix);
+		end = size - 1;
+	}
+	else
+	{	start = Number(m[1]);
+		end = m[2] ? Math.min(Number(m[2]), size-1) : size-1;
+		if (end < start)
+		{	return m[2] && Number(m[2])<start ? undefined : 'unsatisfiable';
+		}
+	}
+	if (start >= size)
+	{	return 'unsatisfiable';
+	}
+	return {start, end};
+}
+
+function read_file_stream(file: Deno.FsFile, length: number)
+{	let left = length;
+	return new ReadableStream<Uint8Array>
+	(	{	async pull(controller)
+			{	const buffer = new Uint8Array(Math.min(CHUNK_SIZE, left));
+				const n = await file.read(buffer);
+				if (n == null)
+				{	file.close();
+					controller.close();
+					return;
+				}
+				left -= n;
+				controller.enqueue(buffer.subarray(0, n));
+				if (left <= 0)
+				{	file.close();
+					controller.close();
+				}
+			},
+			cancel()
+			{	file.close();
+			}
+		}
+	);
+}
@@ -1,8 +1,11 @@
 import {with_docker, system} from './with_docker.ts';
-import {g, c, php, settings, PhpInterpreter, InterpreterExitError, PhpSettings} from '../../mod.ts';
+import {g, c, php, settings, PhpInterpreter, InterpreterExitError, PhpSettings, PhpInterpreterPool, InterpreterAbortError, InterpreterTimeoutError, InterpreterError, register_php_error_class, PhpWarning, PhpTraceRecord, global_metrics, register_codec, PhpDuration, PhpWorker, PhpRepl} from '../../mod.ts';
 import {assert, assertEquals, fcgi, path} from "../deps.ts";
 import {DEBUG_PHP_BOOT} from '../php_interpreter.ts';
 import {start_proxy, PhpRequest} from '../start_proxy.ts';
+import {generate_dts} from '../dts_generator.ts';
+import {PhpFpmBackends} from '../php_fpm_backends.ts';
+import {get_ini_params} from '../php_ini.ts';
 
 // deno-lint-ignore no-explicit-any
 type Any = any;
@@ -47,11 +50,36 @@ const TESTS =
 	test_variables_from_php,
 	test_include,
 	test_proxy,
+	test_proxy_routes,
+	test_proxy_middleware,
 	test_settings,
 	test_json_encode,
 	test_pass_value_from_php_to_deno_and_then_back_to_php,
 	test_pass_value_from_deno_to_php_and_then_back_to_deno,
 	test_pass_big_data,
+	test_pool,
+	test_abort,
+	test_binary,
+	test_dts,
+	test_error_classes,
+	test_warnings,
+	test_capture,
+	test_auto_release,
+	test_deno_access,
+	test_php_fpm_backends,
+	test_batch,
+	test_promises,
+	test_closures,
+	test_generators,
+	test_ini,
+	test_env,
+	test_composer,
+	test_trace,
+	test_metrics,
+	test_restart,
+	test_codecs,
+	test_worker,
+	test_repl,
 ];
 
 const {PHP_CLI_NAME, PHP_FPM_LISTEN, WITH_DOCKER} = Deno.env.toObject();
@@ -2012,6 +2040,180 @@ async function test_proxy(_php_cli_name: string|string[], php_fpm_listen: string
 	php.close_idle();
 }
 
+async function test_proxy_routes(_php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const tmp_dirname = await Deno.makeTempDir();
+
+	try
+	{	await Deno.writeTextFile(tmp_dirname+'/style.css', 'body {}');
+		await Deno.writeTextFile(tmp_dirname+'/hello.php', `<?php echo 'Hello all';`);
+		await Deno.writeTextFile(tmp_dirname+'/.secret.css', 'secret');
+		await Deno.chmod(tmp_dirname, 0o755);
+		await Deno.chmod(tmp_dirname+'/hello.php', 0o644);
+
+		const proxy = start_proxy
+		(	{	frontend_listen: 0,
+				backend_listen: php_fpm_listen,
+				unix_socket_name: '',
+				localhost_name_bind,
+				localhost_name,
+				interpreter_script,
+				static_files: {document_root: tmp_dirname, max_age: 60},
+				routes:
+				[	{path: '*.css', action: 'static'},
+					{path: '*.php', action: 'php'},
+					{	path: /^\/api\//,
+						async action(php: PhpRequest)
+						{	await php.request.respond({status: 200, body: 'API '+php.request.url});
+						}
+					},
+				],
+			}
+		);
+
+		const fetch = (url: string, init?: RequestInit, scriptFilename='') => fcgi.fetch({addr: proxy.addr, scriptFilename}, 'http://localhost'+url, init);
+
+		// Static file
+		let response = await fetch('/style.css');
+		assertEquals(response.status, 200);
+		assertEquals(response.headers.get('content-type'), 'text/css; charset=utf-8');
+		assertEquals(response.headers.get('content-length'), '7');
+		assertEquals(response.headers.get('cache-control'), 'max-age=60');
+		assertEquals(await response.text(), 'body {}');
+		const etag = response.headers.get('etag');
+		assert(etag);
+
+		// Not modified
+		response = await fetch('/style.css', {headers: {'if-none-match': etag}});
+		assertEquals(response.status, 304);
+		await response.body?.cancel();
+
+		// Ranges
+		response = await fetch('/style.css', {headers: {range: 'bytes=0-3'}});
+		assertEquals(response.status, 206);
+		assertEquals(response.headers.get('content-range'), 'bytes 0-3/7');
+		assertEquals(await response.text(), 'body');
+		response = await fetch('/style.css', {headers: {range: 'bytes=-2'}});
+		assertEquals(response.status, 206);
+		assertEquals(await response.text(), '{}');
+		response = await fetch('/style.css', {headers: {range: 'bytes=100-'}});
+		assertEquals(response.status, 416);
+		await response.body?.cancel();
+
+		// If-Range (weak ETag doesn't match, so the whole file is sent)
+		assert(!etag.startsWith('W/'));
+		response = await fetch('/style.css', {headers: {range: 'bytes=0-3', 'if-range': etag}});
+		assertEquals(response.status, 206);
+		assertEquals(await response.text(), 'body');
+		response = await fetch('/style.css', {headers: {range: 'bytes=0-3', 'if-range': 'W/'+etag}});
+		assertEquals(response.status, 200);
+		assertEquals(await response.text(), 'body {}');
+
+		// Not found, hidden and outside of document root
+		for (const url of ['/missing.css', '/.secret.css', '/..%2Fstyle.css'])
+		{	response = await fetch(url);
+			assertEquals(response.status, 404);
+			await response.body?.cancel();
+		}
+
+		// PHP
+		response = await fetch('/hello.php', undefined, tmp_dirname+'/hello.php');
+		assertEquals(await response.text(), 'Hello all');
+
+		// Deno handler
+		response = await fetch('/api/items?a=1');
+		assertEquals(await response.text(), 'API /api/items?a=1');
+
+		// No route and no `onrequest`
+		response = await fetch('/other.txt');
+		assertEquals(response.status, 404);
+		await response.body?.cancel();
+
+		await proxy.stop();
+	}
+	finally
+	{	await Deno.remove(tmp_dirname, {recursive: true});
+	}
+	php.close_idle();
+}
+
+async function test_proxy_middleware(_php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const tmp_name = await Deno.makeTempFile({suffix: '.php'});
+
+	try
+	{	await Deno.writeTextFile(tmp_name, `<?php header('X-Powered-By: PHP'); echo 'Hello all';`);
+		await Deno.chmod(tmp_name, 0o644);
+
+		const log = new Array<string>;
+		const proxy = start_proxy
+		(	{	frontend_listen: 0,
+				backend_listen: php_fpm_listen,
+				unix_socket_name: '',
+				localhost_name_bind,
+				localhost_name,
+				interpreter_script,
+				middleware:
+				[	async (php, next) =>
+					{	log.push('begin '+php.request.url);
+						php.add_response_filter
+						(	response =>
+							{	response.headers.set('x-order', response.headers.get('x-order')+',outer');
+							}
+						);
+						await next();
+						log.push('end '+php.request.url);
+					},
+					async (php, next) =>
+					{	if (php.request.headers.get('x-token') != 'secret')
+						{	await php.request.respond({status: 403, body: 'Forbidden'});
+							return;
+						}
+						php.add_response_filter
+						(	response =>
+							{	response.headers.delete('x-powered-by');
+								response.headers.set('x-order', 'inner');
+								return response;
+							}
+						);
+						await next();
+					},
+				],
+				routes:
+				[	{path: '*.php', action: 'php'},
+				],
+				async onrequest(php: PhpRequest)
+				{	await php.request.respond({status: 200, body: 'Deno'});
+				}
+			}
+		);
+
+		const fetch = (url: string, token: string) => fcgi.fetch({addr: proxy.addr, scriptFilename: tmp_name}, 'http://localhost'+url, {headers: {'x-token': token}});
+
+		// Short-circuit
+		let response = await fetch('/index.php', 'wrong');
+		assertEquals(response.status, 403);
+		assertEquals(await response.text(), 'Forbidden');
+
+		// PHP response passes through filters
+		response = await fetch('/index.php', 'secret');
+		assertEquals(await response.text(), 'Hello all');
+		assertEquals(response.headers.get('x-powered-by'), null);
+		assertEquals(response.headers.get('x-order'), 'inner,outer');
+
+		// Deno response
+		response = await fetch('/page.html', 'secret');
+		assertEquals(await response.text(), 'Deno');
+		assertEquals(response.headers.get('x-order'), null);
+
+		await proxy.stop();
+
+		assertEquals(log, ['begin /index.php', 'end /index.php', 'begin /index.php', 'end /index.php', 'begin /page.html', 'end /page.html']);
+	}
+	finally
+	{	await Deno.remove(tmp_name);
+	}
+	php.close_idle();
+}
+
 function test_settings(_php_cli_name: string|string[], _php_fpm_listen: string, _localhost_name: string)
 {	const php = new PhpInterpreter
 	(	{	php_cli_name: 'hello php_cli_name',
@@ -2183,3 +2385,1550 @@ async function test_pass_big_data(php_cli_name: string|string[], _php_fpm_listen
 
 	await g.exit();
 }
+
+async function test_pool(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	const pool = new PhpInterpreterPool(settings, {min_size: 1, max_size: 2, max_uses: 2});
+		await pool.warm_up();
+		assertEquals(pool.stats.size, 1);
+		assertEquals(pool.stats.idle, 1);
+
+		const lease_1 = await pool.acquire();
+		const lease_2 = await pool.acquire();
+		assertEquals(pool.stats.busy, 2);
+		lease_1.g.$var = 'hello';
+		assertEquals(await lease_2.g.$var, undefined);
+
+		// the pool is full, so acquire() waits
+		let lease_3_php;
+		const lease_3_promise = pool.acquire().then(lease => {lease_3_php = lease.php; return lease});
+		await new Promise(y => setTimeout(y, 100));
+		assertEquals(lease_3_php, undefined);
+		assertEquals(pool.stats.waiting, 1);
+		const php_1 = lease_1.php;
+		await lease_1.release();
+		const lease_3 = await lease_3_promise;
+		assert(lease_3_php === php_1);
+		assertEquals(await lease_3.g.$var, 'hello'); // not recycled yet
+
+		// after `max_uses` the interpreter is recycled
+		await lease_3.release();
+		{	await using lease_4 = await pool.acquire();
+			assertEquals(await lease_4.g.$var, undefined);
+		}
+		assertEquals(pool.stats.n_recycled, 1);
+
+		await lease_2.release();
+		assertEquals(pool.stats.n_acquired, 4);
+		await pool.close();
+		assertEquals(pool.stats.size, 0);
+
+		let error;
+		try
+		{	await pool.acquire();
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assertEquals(error?.message, 'Interpreter pool is closed');
+
+		// interpreter where an operation failed is not reused (but PHP exceptions don't count)
+		const pool_2 = new PhpInterpreterPool(settings, {min_size: 1, max_size: 1});
+		{	await using lease = await pool_2.acquire();
+			lease.g.$var = 'kept';
+			await lease.g.eval('throw new Exception("Test");').catch(() => {});
+		}
+		{	await using lease = await pool_2.acquire();
+			assertEquals(await lease.g.$var, 'kept');
+			await lease.php.abortable({signal: AbortSignal.abort()}, () => lease.g.strlen('a')).catch(() => {});
+			assertEquals(lease.php.is_active, true);
+		}
+		assertEquals(pool_2.stats.n_recycled, 1);
+		{	await using lease = await pool_2.acquire();
+			assertEquals(await lease.g.$var, undefined);
+		}
+		await pool_2.close();
+	}
+	php.close_idle();
+}
+
+async function test_abort(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	// timeout
+		g.$var = 'hello';
+		let error;
+		try
+		{	await php.abortable({timeout: 300}, () => g.sleep(2));
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assert(error instanceof InterpreterTimeoutError);
+		assertEquals(error.timeout, 300);
+		assertEquals(php.is_active, false);
+		assertEquals(await g.$var, undefined); // respawned
+		assertEquals(await php.abortable({timeout: 3000}, () => g.strlen('abc')), 3);
+
+		// settings.call_timeout
+		settings.call_timeout = 300;
+		error = undefined;
+		try
+		{	await g.eval('sleep(2);');
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		settings.call_timeout = 0;
+		assert(error instanceof InterpreterTimeoutError);
+		assertEquals(await g.strlen('abcd'), 4);
+
+		// signal
+		g.$var = 'hello';
+		const controller = new AbortController;
+		setTimeout(() => controller.abort('Stop'), 300);
+		error = undefined;
+		try
+		{	await php.abortable({signal: controller.signal}, () => g.sleep(2));
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assert(error instanceof InterpreterAbortError && !(error instanceof InterpreterTimeoutError));
+		assertEquals(error.message, 'Operation aborted');
+		assertEquals(error.reason, 'Stop');
+		assertEquals(await g.$var, undefined);
+
+		// already aborted signal doesn't terminate the interpreter
+		g.$var = 'hello';
+		error = undefined;
+		try
+		{	await php.abortable({signal: controller.signal}, () => g.strlen('abc'));
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assert(error instanceof InterpreterAbortError);
+		assertEquals(await g.$var, 'hello');
+
+		// binary data of operation queued after the aborted one is still sent to the respawned interpreter
+		const slow = php.abortable({timeout: 300}, () => g.sleep(2));
+		const reversed = g.strrev(new Uint8Array([1, 255, 0]));
+		error = undefined;
+		try
+		{	await slow;
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assert(error instanceof InterpreterTimeoutError);
+		assertEquals(await reversed, new Uint8Array([0, 255, 1]));
+
+		await g.exit();
+	}
+
+	// timeout while spawning the interpreter, that never connects
+	const hung = new PhpInterpreter({php_cli_name: ['sh', '-c', 'sleep 10', '--']});
+	const since = Date.now();
+	let error;
+	try
+	{	await hung.abortable({timeout: 300}, () => hung.g.strlen('abc'));
+	}
+	catch (e)
+	{	error = e instanceof Error ? e : new Error(e+'');
+	}
+	assert(error instanceof InterpreterTimeoutError);
+	assert(Date.now()-since < 5000);
+	assertEquals(hung.is_active, false);
+
+	php.close_idle();
+}
+
+async function test_binary(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const bytes = new Uint8Array(256);
+	for (let i=0; i<bytes.length; i++)
+	{	bytes[i] = i;
+	}
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	// Deno -> PHP
+		assertEquals(await g.strlen(bytes), 256);
+		assertEquals(await g.strlen(bytes.buffer), 256);
+		assertEquals(await g.strlen(new DataView(bytes.buffer, 10, 20)), 20);
+		assertEquals(await g.bin2hex(bytes.subarray(254)), 'feff');
+		g.$var = bytes;
+		assertEquals(await g.eval('global $var; return strlen($var).":".ord($var[255]);'), '256:255');
+		g.$var = {a: [bytes.subarray(0, 2), 'text']};
+		assertEquals(await g.eval('global $var; return bin2hex($var["a"][0]).":".$var["a"][1];'), '0001:text');
+		assertEquals(await g.eval('global $var; return is_string($var["a"][0]);'), true);
+
+		// PHP -> Deno
+		assertEquals(await g.hex2bin('00ff80'), new Uint8Array([0, 0xFF, 0x80]));
+		assertEquals(await g.hex2bin('414243'), 'ABC');
+		const random = await g.random_bytes(1000);
+		assert(random instanceof Uint8Array && random.length==1000);
+		assertEquals(await g.eval('return ["bin" => "\\xFF\\xFE", "text" => "ok"];'), {bin: new Uint8Array([0xFF, 0xFE]), text: 'ok'});
+		assertEquals(await g.gzdecode(await g.gzencode(bytes)), bytes);
+
+		// Deno callback returns binary data
+		settings.onsymbol = name =>
+		{	if (name == 'get_bytes')
+			{	return () => bytes;
+			}
+		};
+		assertEquals(await g.eval('return bin2hex(substr(DenoWorld::get_bytes(), 0, 3));'), '000102');
+
+		// binary_strings = 'string'
+		settings.binary_strings = 'string';
+		assertEquals(await g.hex2bin('41ff42'), 'A\uFFFDB');
+		settings.binary_strings = 'uint8array';
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_dts(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	await g.eval
+		(	`	namespace DtsNs\\Sub;
+
+				const NS_CONST = 'a';
+
+				function get_twice(int $value, ?string $label=null, int ...$rest): int
+				{	return $value * 2;
+				}
+
+				class Value implements \\IteratorAggregate
+				{	const TEN = 10;
+					public static int $count = 0;
+					public $var;
+
+					function __construct(?int $var=null)
+					{	$this->var = $var;
+					}
+
+					function get_triple_var(): int
+					{	return $this->var * 3;
+					}
+
+					static function create(self $other): static
+					{	return new static($other->var);
+					}
+
+					function getIterator(): \\Iterator
+					{	return new \\ArrayIterator([]);
+					}
+				}
+			`
+		);
+		const dts = await generate_dts(php, {namespaces: ['DtsNs']});
+		assert(dts.includes('export interface PhpGlobals\n{\tDtsNs: PhpGlobals_DtsNs;\n}'));
+		assert(dts.includes('\tget_twice(value: number, label?: string | null, ...rest: number[]): PhpCall<number>;'));
+		assert(dts.includes('\treadonly NS_CONST: Promise<string>;'));
+		assert(dts.includes('\tnew(_var?: number | null): Promise<PhpObject_DtsNs_Sub_Value>;'));
+		assert(dts.includes('\treadonly TEN: Promise<number>;'));
+		assert(dts.includes('\tget $count(): Promise<number>;'));
+		assert(dts.includes('\tcreate(other: PhpObject_DtsNs_Sub_Value): PhpCall<Record<string, any>, PhpObject_DtsNs_Sub_Value>;'));
+		assert(dts.includes('export interface PhpObject_DtsNs_Sub_Value extends PhpObject, AsyncIterable<any>'));
+		assert(dts.includes('\tget_triple_var(): Promise<number>;'));
+		assert(!dts.includes('strlen'));
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_error_classes(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	class InvalidArgumentError extends InterpreterError {}
+	class MyError extends InvalidArgumentError {}
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	await g.eval
+		(	`	namespace ErrNs;
+
+				class MyException extends \\InvalidArgumentException
+				{
+				}
+
+				class MyException2 extends MyException
+				{
+				}
+			`
+		);
+
+		// not registered
+		let error;
+		try
+		{	await g.eval('throw new InvalidArgumentException("Bad value", 12, new RuntimeException("Reason", 3));');
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof InterpreterError && !(error instanceof InvalidArgumentError));
+		assertEquals(error.phpClass, 'InvalidArgumentException');
+		assertEquals(error.code, 12);
+		assert(error.cause instanceof InterpreterError);
+		assertEquals(error.cause.message, 'Reason');
+		assertEquals(error.cause.phpClass, 'RuntimeException');
+		assertEquals(error.cause.code, 3);
+		assertEquals(error.cause.cause, undefined);
+
+		// registered
+		register_php_error_class('InvalidArgumentException', InvalidArgumentError);
+		register_php_error_class('\\ErrNs\\MyException2', MyError);
+		error = undefined;
+		try
+		{	await g.eval('throw new ErrNs\\MyException("Bad value 2");');
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof InvalidArgumentError && !(error instanceof MyError));
+		assertEquals(error.phpClass, 'ErrNs\\MyException');
+		assertEquals(error.message, 'Bad value 2');
+
+		error = undefined;
+		try
+		{	await g.eval('throw new ErrNs\\MyException2("Bad value 3");');
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof MyError);
+
+		register_php_error_class('InvalidArgumentException', undefined);
+		register_php_error_class('ErrNs\\MyException2', undefined);
+		error = undefined;
+		try
+		{	await g.eval('throw new ErrNs\\MyException2("Bad value 4");');
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof InterpreterError && !(error instanceof InvalidArgumentError));
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_warnings(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const E_WARNING = 2;
+	const E_USER_WARNING = 512;
+	const E_USER_NOTICE = 1024;
+	const E_USER_ERROR = 256;
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	// by default warnings are thrown
+		let error;
+		try
+		{	await g.trigger_error('Test 1', E_USER_WARNING);
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assertEquals(error?.message, 'Test 1');
+		await g.exit();
+
+		// onwarning
+		const warnings = new Array<PhpWarning>;
+		settings.strict_levels = -1 & ~(E_WARNING|E_USER_WARNING|E_USER_NOTICE);
+		settings.onwarning = warning =>
+		{	warnings.push(warning);
+		};
+		assertEquals(await g.trigger_error('Test 2', E_USER_WARNING), true);
+		assertEquals(warnings.length, 1);
+		assertEquals(warnings[0].level, E_USER_WARNING);
+		assertEquals(warnings[0].level_name, 'E_USER_WARNING');
+		assertEquals(warnings[0].message, 'Test 2');
+		assertEquals(warnings[0].call, 'CALL trigger_error');
+		assert(warnings[0].stack.includes('test_warnings'));
+
+		await g.eval
+		(	`	function warn_twice()
+				{	trigger_error('Test 3', E_USER_NOTICE);
+					trigger_error('Test 4', E_USER_WARNING);
+					return 'done';
+				}
+			`
+		);
+		assertEquals(await g.warn_twice(), 'done');
+		assertEquals(warnings.map(w => w.message), ['Test 2', 'Test 3', 'Test 4']);
+		assertEquals(warnings[1].level_name, 'E_USER_NOTICE');
+		assertEquals(warnings[1].call, 'CALL warn_twice');
+
+		// suppressed with @
+		assertEquals(await g.eval('return @trigger_error("Test 5", E_USER_WARNING);'), true);
+		assertEquals(warnings.length, 3);
+
+		// strict level
+		error = undefined;
+		try
+		{	await g.trigger_error('Test 6', E_USER_ERROR);
+		}
+		catch (e)
+		{	error = e instanceof Error ? e : new Error(e+'');
+		}
+		assertEquals(error?.message, 'Test 6');
+		assertEquals(warnings.length, 3);
+
+		settings.strict_levels = -1;
+		settings.onwarning = undefined;
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_capture(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	await g.eval
+		(	`	function render_test($name)
+				{	echo "Hello, $name";
+					return strlen($name);
+				}
+			`
+		);
+
+		// result and output
+		let captured = await php.capture(() => g.render_test('world'));
+		assertEquals(captured.result, 5);
+		assertEquals(new TextDecoder().decode(captured.output), 'Hello, world');
+
+		// binary output
+		captured = await php.capture(() => g.echo(new Uint8Array([0, 200, 255])));
+		assertEquals(captured.result, undefined);
+		assertEquals(captured.output, new Uint8Array([0, 200, 255]));
+
+		// nested capture, and buffers left open
+		captured = await php.capture
+		(	async () =>
+			{	await g.echo('A');
+				const inner = await php.capture(() => g.eval('echo "B"; ob_start(); echo "C";'));
+				await g.echo('D');
+				return new TextDecoder().decode(inner.output);
+			}
+		);
+		assertEquals(captured.result, 'BC');
+		assertEquals(new TextDecoder().decode(captured.output), 'AD');
+
+		// on error the output is passed through
+		let error: unknown;
+		captured = await php.capture
+		(	async () =>
+			{	try
+				{	await php.capture(() => g.eval('echo "E"; throw new Exception("Test");'));
+				}
+				catch (e)
+				{	error = e;
+				}
+			}
+		);
+		assert(error instanceof InterpreterError);
+		assertEquals(new TextDecoder().decode(captured.output), 'E');
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_auto_release(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	// garbage collector can be triggered only if deno runs with "--v8-flags=--expose-gc"
+	const gc: (() => void) | undefined = (globalThis as Any).gc;
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	settings.auto_release = true;
+		settings.warn_leaked_handles = true;
+		const warnings = new Array<string>;
+		const console_warn = console.warn;
+		console.warn = (msg: string) => {warnings.push(msg)};
+		try
+		{	// explicitly disposed objects are not reported
+			{	using obj = await new c.ArrayObject([1, 2]);
+				assertEquals(await obj.count(), 2);
+				assertEquals(await php.n_objects(), 1);
+			}
+			assertEquals(await php.n_objects(), 0);
+
+			// property of an object keeps the object alive
+			const count = await (async () => (await new c.ArrayObject([1, 2, 3])).count)();
+			await Promise.resolve();
+			gc?.();
+			await new Promise(y => setTimeout(y, 10));
+			assertEquals(await count(), 3);
+
+			if (gc)
+			{	// leaked objects
+				await (async () =>
+				{	for (let i=0; i<3; i++)
+					{	const obj = await new c.ArrayObject([i]);
+						assertEquals(await obj.count(), 1);
+					}
+				})();
+				assertEquals(await php.n_objects(), 4);
+				gc();
+				await new Promise(y => setTimeout(y, 10));
+				assertEquals(await php.n_objects(), 1);
+				assertEquals(warnings.length, 3);
+				assert(warnings[0].includes('ArrayObject'));
+				assert(warnings[0].includes('test_auto_release'));
+			}
+		}
+		finally
+		{	console.warn = console_warn;
+			settings.auto_release = false;
+			settings.warn_leaked_handles = false;
+		}
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_deno_access(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	settings.deno_access = {allow: ['Math', 'Map', 'Deno.pid', 'parseInt'], deny: ['Math.random']};
+		try
+		{	await php_eval
+			(	`	function try_deno_access($func)
+					{	try
+						{	return $func();
+						}
+						catch (Throwable $e)
+						{	return $e->getMessage();
+						}
+					}
+				`
+			);
+
+			// allowed
+			assertEquals(await php_eval('global $window; return $window->Math->max(1, 5);'), 5);
+			assertEquals(await php_eval('global $window; return $window->parseInt("12px");'), 12);
+			assertEquals(await php_eval('global $window; return $window->Deno->pid;'), Deno.pid);
+			assertEquals(await php_eval('$map = new DenoWorld\\Map; $map->set("a", 2); return $map->get("a");'), 2);
+
+			// not allowed
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Deno->exit(1));'), 'Access to Deno "Deno.exit" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Deno());'), 'Access to Deno "Deno" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Reflect);'), 'Access to Deno "Reflect" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Deno = 1);'), 'Access to Deno "Deno" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('global $php; return try_deno_access(fn() => $php->settings);'), 'Access to Deno "php.settings" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('return try_deno_access(fn() => DenoWorld::eval("1"));'), 'Access to Deno "eval" is not allowed by settings.deno_access');
+
+			// denied
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Math->random());'), 'Access to Deno "Math.random" is denied by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Math->max->constructor);'), 'Access to Deno "Math.max.constructor" is denied by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Math->__proto__);'), 'Access to Deno "Math.__proto__" is denied by settings.deno_access');
+			assertEquals(await php_eval('return try_deno_access(fn() => (new DenoWorld\\Map)->constructor->constructor);'), 'Access to Deno "Map().constructor" is denied by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Map->prototype);'), 'Access to Deno "Map.prototype" is denied by settings.deno_access');
+
+			// objects returned from functions
+			assertEquals(await php_eval('$map = new DenoWorld\\Map; return try_deno_access(fn() => $map->entries()->constructor);'), 'Access to Deno "Map().entries().constructor" is denied by settings.deno_access');
+			settings.deno_access = {allow: ['Math', 'Deno.env.toObject']};
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Deno->env->toObject()->constructor);'), 'Access to Deno "Deno.env.toObject().constructor" is denied by settings.deno_access');
+
+			// iteration is like call
+			settings.deno_access = {allow: ['Math', 'Deno.pid']};
+			assertEquals(await php_eval('global $window; return try_deno_access(function() use($window) {foreach ($window->Deno as $k => $v) {} return "iterated";});'), 'Access to Deno "Deno" is not allowed by settings.deno_access');
+
+			// aliases of the global object
+			settings.deno_access = {deny: ['Deno.env']};
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->globalThis->Deno->env);'), 'Access to Deno "Deno.env" is denied by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->self->Deno->env);'), 'Access to Deno "Deno.env" is denied by settings.deno_access');
+
+			// known objects returned from allowed functions have their own paths
+			settings.deno_access = {allow: ['Object']};
+			assertEquals(await php_eval('global $window; return try_deno_access(fn() => $window->Object->getOwnPropertyDescriptor($window, "Deno")->value);'), 'Access to Deno "Deno" is not allowed by settings.deno_access');
+			assertEquals(await php_eval('global $window; return try_deno_access(function() use($window) {foreach ($window->Object->entries($window) as $e) {if ($e[0] == "Deno") return $e[1]->pid;} return "not found";});'), 'Access to Deno "Deno" is not allowed by settings.deno_access');
+		}
+		finally
+		{	settings.deno_access = undefined;
+		}
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_php_fpm_backends(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	// weighted round-robin
+	const backends = new PhpFpmBackends(['a:9000', {listen: 'b:9000', weight: 2}, {listen: 'c:9000', weight: 0}]);
+	assertEquals(backends.size, 2);
+	const picked = new Array<string|undefined>;
+	for (let i=0; i<6; i++)
+	{	picked.push(await backends.pick(new Set, 10_000, 1000));
+	}
+	assertEquals(picked.filter(b => b=='a:9000').length, 2);
+	assertEquals(picked.filter(b => b=='b:9000').length, 4);
+	backends.mark_failed('b:9000', 10_000);
+	assertEquals(await backends.pick(new Set, 10_000, 1000), 'a:9000');
+	assertEquals(await backends.pick(new Set, 10_000, 1000), 'a:9000');
+	assertEquals(await backends.pick(new Set(['a:9000']), 10_000, 1000), 'b:9000'); // all the rest failed, so try it anyway
+	assertEquals(await backends.pick(new Set(['a:9000', 'b:9000']), 10_000, 1000), undefined);
+
+	// failover
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	if (settings.php_fpm.listen)
+		{	settings.php_fpm.listen = ['localhost:1', php_fpm_listen]; // nobody listens on port 1
+			settings.php_fpm.retries = 1;
+			for (let i=0; i<3; i++)
+			{	assertEquals(await g.php_sapi_name(), 'fpm-fcgi');
+				await g.exit();
+			}
+			settings.php_fpm.listen = ['localhost:1'];
+			let error;
+			try
+			{	await g.php_sapi_name();
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof Error);
+			settings.php_fpm.listen = php_fpm_listen;
+			settings.php_fpm.retries = new PhpSettings().php_fpm.retries;
+		}
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_batch(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	// results
+		g.$batch_var = 10;
+		const [len, upper, var_value, bin, time] = await php.batch
+		(	() =>
+			[	g.strlen('abc'),
+				g.strtoupper('abc'),
+				g.$batch_var,
+				g.strrev(new Uint8Array([1, 255, 0])),
+				g.eval('return $GLOBALS["batch_var"] + 1;'),
+			]
+		);
+		assertEquals(len, 3);
+		assertEquals(upper, 'ABC');
+		assertEquals(var_value, 10);
+		assertEquals(bin, new Uint8Array([0, 255, 1]));
+		assertEquals(time, 11);
+
+		// sets and object handles
+		await php.batch
+		(	() =>
+			{	g.$batch_var = 20;
+				return [];
+			}
+		);
+		assertEquals(await g.$batch_var, 20);
+		const obj = await new c.ArrayObject([1, 2, 3]);
+		const [count] = await php.batch(() => [obj.count(), obj[Symbol.dispose]()]);
+		assertEquals(count, 3);
+		assertEquals(await php.n_objects(), 0);
+
+		// object handle from batched call
+		const [arr, after] = await php.batch(() => [g.eval('return new ArrayObject([1, 2]);').this, g.strlen('abc')]);
+		assertEquals(await arr.count(), 2);
+		assertEquals(after, 3);
+		arr[Symbol.dispose]();
+		assertEquals(await php.n_objects(), 0);
+
+		// function calls and variable operations are executed in the order they were queued
+		const [before_call, call_result, after_call] = await php.batch(() => [g.$batch_var, g.eval('$GLOBALS["batch_var"] = 30; return 1;'), g.$batch_var]);
+		assertEquals(before_call, 20);
+		assertEquals(call_result, 1);
+		assertEquals(after_call, 30);
+
+		// callbacks to Deno from batched operations
+		const [a, b] = await php.batch(() => [g.eval('global $window; return $window->parseInt("12px");'), g.strlen('ab')]);
+		assertEquals(a, 12);
+		assertEquals(b, 2);
+
+		// error skips the rest of the batch
+		g.$batch_var = 0;
+		const p1 = g.eval('$GLOBALS["batch_var"] = 1;');
+		let error2;
+		let error3;
+		let error;
+		try
+		{	await php.batch
+			(	() =>
+				[	g.eval('$GLOBALS["batch_var"] = 2;'),
+					g.eval('throw new Exception("Test");').catch((e: Error) => {error2 = e; throw e}),
+					g.eval('$GLOBALS["batch_var"] = 3;').catch((e: Error) => {error3 = e; throw e}),
+				]
+			);
+		}
+		catch (e)
+		{	error = e;
+		}
+		await p1;
+		assert(error instanceof InterpreterError);
+		assertEquals(error.message, 'Test');
+		assertEquals(error2, error);
+		assertEquals(error3, error);
+		assertEquals(await g.$batch_var, 2);
+
+		// nested batch joins the outer one
+		const [x, [y]] = await php.batch(() => [g.strlen('a'), php.batch(() => [g.strlen('bb')])]);
+		assertEquals(x, 1);
+		assertEquals(y, 2);
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_promises(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const order = new Array<string>;
+
+	async function delayed(ms: number, value: string)
+	{	order.push('start '+value);
+		await new Promise(y => setTimeout(y, ms));
+		order.push('end '+value);
+		if (value == 'fail')
+		{	throw new Error('Failed');
+		}
+		return value;
+	}
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	settings.onsymbol = name =>
+		{	if (name == 'delayed')
+			{	return delayed;
+			}
+		};
+		order.length = 0;
+
+		// concurrent calls
+		assertEquals
+		(	await php_eval
+			(	`	$promises = DenoWorld::async(fn() => ['a' => DenoWorld::delayed(40, 'A'), 'b' => DenoWorld::delayed(20, 'B'), 'c' => 'C']);
+					return [get_class($promises['a']), $promises['a'] instanceof DenoWorld\\Promise, DenoWorld::all($promises)];
+				`
+			),
+			['DenoWorldPromise', true, {a: 'A', b: 'B', c: 'C'}]
+		);
+		assertEquals(order, ['start A', 'start B', 'end B', 'end A']);
+
+		// calls outside DenoWorld::async() are awaited
+		assertEquals(await php_eval(`return DenoWorld::delayed(1, 'D');`), 'D');
+
+		// records other than calls inside DenoWorld::async() return values as usual
+		assertEquals(await php_eval(`global $window; $math = DenoWorld::async(fn() => $window->Math); return [$math instanceof DenoWorld\\Promise, $math->max(1, 2)];`), [false, 2]);
+
+		// wait() and then()
+		assertEquals
+		(	await php_eval
+			(	`	global $window;
+					$promise = DenoWorld::async(fn() => $window->Promise->resolve('E'));
+					return [$promise->wait(), $promise->wait(), $promise->then(fn($v) => "$v!")];
+				`
+			),
+			['E', 'E', 'E!']
+		);
+
+		// rejection
+		assertEquals
+		(	await php_eval
+			(	`	$promise = DenoWorld::async(fn() => DenoWorld::delayed(1, 'fail'));
+					try
+					{	$promise->wait();
+					}
+					catch (Throwable $e)
+					{	$message = $e->getMessage();
+					}
+					return [$message, $promise->then(null, fn($e) => 'Caught: '.$e->getMessage())];
+				`
+			),
+			['Failed', 'Caught: Failed']
+		);
+
+		// promises can be passed to Deno
+		assertEquals
+		(	await php_eval
+			(	`	global $window;
+					$promises = DenoWorld::async(fn() => [DenoWorld::delayed(30, 'slow'), DenoWorld::delayed(1, 'fast')]);
+					return $window->Promise->race($promises);
+				`
+			),
+			'fast'
+		);
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_closures(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	// garbage collector can be triggered only if deno runs with "--v8-flags=--expose-gc"
+	const gc: (() => void) | undefined = (globalThis as Any).gc;
+
+	async function map_async(values: Any[], callback: (value: Any) => Promise<Any>)
+	{	const result = [];
+		for (const value of values)
+		{	result.push(await callback(value));
+		}
+		return result.join(',');
+	}
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	settings.onsymbol = name =>
+		{	if (name == 'map_async')
+			{	return map_async;
+			}
+		};
+
+		// closure passed to Deno function is called during the function call
+		assertEquals(await php_eval(`return DenoWorld::map_async([1, 2, 3], fn($x) => $x * 10);`), '10,20,30');
+		assertEquals(await php_eval(`return DenoWorld::map_async(['a', 'bc'], Closure::fromCallable('strlen'));`), '1,2');
+
+		// closure returned from PHP
+		await php_eval(`$GLOBALS['closure_var'] = 5;`);
+		const add = await php_eval(`return function($a) {return $a + $GLOBALS['closure_var'];};`);
+		assertEquals(typeof(add), 'function');
+		assertEquals(await add(10), 15);
+		assertEquals(await php.n_objects(), 1);
+
+		// when passed back to PHP, it becomes the original closure
+		assertEquals(await g.call_user_func(add, 1), 6);
+		assertEquals(await g.get_class(add), 'Closure');
+
+		// setters also pass it as the original closure
+		g.$closure_f = add;
+		assertEquals(await php_eval(`return $GLOBALS['closure_f'] instanceof Closure ? $GLOBALS['closure_f'](2) : null;`), 7);
+		await php_eval(`$GLOBALS['closure_obj'] = new stdClass;`);
+		g.$closure_obj.f = add;
+		assertEquals(await php_eval(`return ($GLOBALS['closure_obj']->f)(3);`), 8);
+		delete g.$closure_f;
+		delete g.$closure_obj;
+
+		// Deno function assigned to PHP variable
+		g.$closure_f = () => 'From Deno';
+		assertEquals(await g.call_user_func(await g.$closure_f), 'From Deno');
+		delete g.$closure_f;
+
+		// errors
+		const fail = await php_eval(`return function() {throw new Exception('Closure failed');};`);
+		let error;
+		try
+		{	await fail();
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof InterpreterError);
+		assertEquals(error.message, 'Closure failed');
+
+		if (gc)
+		{	await (async () =>
+			{	for (let i=0; i<3; i++)
+				{	const f = await php_eval(`return fn() => 1;`);
+					assertEquals(await f(), 1);
+				}
+			})();
+			gc();
+			await new Promise(y => setTimeout(y, 10));
+			assertEquals(await php.n_objects(), 2); // add and fail
+			assertEquals(await add(0), 5);
+			assert(fail);
+		}
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_generators(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	await php_eval
+		(	`	function running_total()
+				{	$total = 0;
+					try
+					{	while (($n = yield $total) !== null)
+						{	$total += $n;
+						}
+					}
+					catch (Exception $e)
+					{	yield 'Caught: '.$e->getMessage();
+					}
+					return "Final: $total";
+				}
+
+				function numbers($n)
+				{	for ($i=0; $i<$n; $i++)
+					{	if ($i == 5)
+						{	$GLOBALS['numbers_reached'] = true;
+						}
+						yield $i;
+					}
+				}
+			`
+		);
+
+		// send() and getReturn()
+		{	using gen = await g.running_total().this;
+			const it = gen[Symbol.asyncIterator]();
+			assertEquals(await it.next(), {value: 0, done: false});
+			assertEquals(await it.next(10), {value: 10, done: false});
+			assertEquals(await it.next(5), {value: 15, done: false});
+			assertEquals(await it.next(null), {value: 'Final: 15', done: true});
+			assertEquals(await it.next(), {value: undefined, done: true});
+		}
+
+		// throw()
+		{	using gen = await g.running_total().this;
+			const it = gen[Symbol.asyncIterator]();
+			assertEquals(await it.next(), {value: 0, done: false});
+			assertEquals(await it.throw(new Error('Stop')), {value: 'Caught: Stop', done: false});
+			assertEquals(await it.next(), {value: 'Final: 0', done: true});
+		}
+
+		// uncaught exception inside generator
+		{	using gen = await php_eval(`return (function() {yield 1; throw new Exception('Gen failed');})();`).this;
+			const arr = [];
+			let error;
+			try
+			{	for await (const value of gen)
+				{	arr.push(value);
+				}
+			}
+			catch (e)
+			{	error = e;
+			}
+			assertEquals(arr, [1]);
+			assert(error instanceof InterpreterError);
+			assertEquals(error.message, 'Gen failed');
+		}
+
+		// prefetch
+		settings.iterator_prefetch = 4;
+		try
+		{	g.$numbers_reached = false;
+			using gen = await g.numbers(10).this;
+			const arr = [];
+			for await (const value of gen)
+			{	arr.push(value);
+				if (value == 1)
+				{	assertEquals(await g.$numbers_reached, false);
+				}
+				else if (value == 4)
+				{	assertEquals(await g.$numbers_reached, true); // fetched items 4 to 7
+				}
+			}
+			assertEquals(arr, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+			// sending value when items are prefetched
+			using gen_2 = await g.numbers(10).this;
+			const it = gen_2[Symbol.asyncIterator]();
+			assertEquals(await it.next(), {value: 0, done: false});
+			let error;
+			try
+			{	await it.next(1);
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof Error);
+			assertEquals(await it.next(), {value: 1, done: false});
+		}
+		finally
+		{	settings.iterator_prefetch = 1;
+		}
+
+		// break
+		{	using gen = await g.numbers(10).this;
+			for await (const value of gen)
+			{	if (value == 2)
+				{	break;
+				}
+			}
+		}
+
+		// finally runs after break, even when the generator is referenced elsewhere
+		{	g.$gen_finally = '';
+			using gen = await php_eval(`$GLOBALS['gen_kept'] = (function() {try {yield 1; yield 2;} finally {$GLOBALS['gen_finally'] = 'ran';}})(); return $GLOBALS['gen_kept'];`).this;
+			for await (const value of gen)
+			{	assertEquals(value, 1);
+				break;
+			}
+			assertEquals(await g.$gen_finally, 'ran');
+			assertEquals(await php_eval(`return $GLOBALS['gen_kept']->valid();`), false);
+		}
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_ini(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	// FastCGI params
+	assertEquals
+	(	get_ini_params({precision: 10}, {disable_functions: 'exec,system'}, '/tmp'),
+		new Map([['PHP_VALUE', 'precision=10\ninclude_path=/tmp'], ['PHP_ADMIN_VALUE', 'disable_functions="exec,system"']])
+	);
+	assertEquals(get_ini_params({}, {}, ''), new Map);
+
+	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	settings.ini = {memory_limit: '200M', precision: 10, html_errors: true};
+		settings.include_path = ['/tmp', '/usr/share'];
+		try
+		{	assertEquals
+			(	await php.get_ini(['memory_limit', 'precision', 'html_errors', 'include_path', 'no_such_directive']),
+				{memory_limit: '200M', precision: '10', html_errors: '1', include_path: '/tmp:/usr/share', no_such_directive: false}
+			);
+			const all = await php.get_ini();
+			assertEquals(all.memory_limit, '200M');
+			await g.exit();
+
+			// admin directives (PHP-FPM doesn't allow PHP code to change them)
+			settings.ini_admin = {user_agent: 'php_world_test'};
+			assertEquals(await php.get_ini(['user_agent']), {user_agent: 'php_world_test'});
+			if (settings.php_fpm.listen)
+			{	assertEquals(await g.ini_set('user_agent', 'other'), false);
+				assertEquals(await g.ini_get('user_agent'), 'php_world_test');
+			}
+			settings.ini_admin = {};
+			await g.exit();
+
+			// validation
+			settings.ini = {'memory_limit=1G\nprecision': 1};
+			let error;
+			try
+			{	await g.ini_get('memory_limit');
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof Error);
+			assert(error.message.includes('settings.ini'));
+			await g.exit();
+
+			settings.ini = {memory_limit: '1G\n'};
+			error = undefined;
+			try
+			{	await g.ini_get('memory_limit');
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof Error);
+			assert(error.message.includes('line breaks'));
+			await g.exit();
+
+			// extensions are only for PHP-CLI
+			if (settings.php_fpm.listen)
+			{	settings.ini = {};
+				settings.extensions = ['gmp'];
+				error = undefined;
+				try
+				{	await g.extension_loaded('gmp');
+				}
+				catch (e)
+				{	error = e;
+				}
+				assert(error instanceof Error);
+				assert(error.message.includes('only supported for PHP-CLI'));
+			}
+		}
+		finally
+		{	settings.ini = {};
+			settings.ini_admin = {};
+			settings.include_path = '';
+			settings.extensions = [];
+		}
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_env(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const tmp_dir = await Deno.realPath(await Deno.makeTempDir());
+	try
+	{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+		{	// when PHP-CLI runs through another program (like `docker exec`), env and cwd apply to that program
+			const is_direct = settings.php_fpm.listen || !Array.isArray(php_cli_name);
+			settings.env = {PHP_WORLD_TEST_ENV: 'Value 1'};
+			settings.cwd = settings.php_fpm.listen ? '/tmp' : tmp_dir;
+			try
+			{	if (is_direct)
+				{	assertEquals(await g.getenv('PHP_WORLD_TEST_ENV'), 'Value 1');
+					assertEquals(await g.getcwd(), settings.cwd);
+				}
+				await g.exit();
+
+				if (!settings.php_fpm.listen && is_direct)
+				{	Deno.env.set('PHP_WORLD_TEST_ENV_2', 'Value 2');
+					assertEquals(await g.getenv('PHP_WORLD_TEST_ENV_2'), 'Value 2');
+					await g.exit();
+					settings.clear_env = true;
+					settings.env.PATH = Deno.env.get('PATH') ?? '';
+					assertEquals(await g.getenv('PHP_WORLD_TEST_ENV_2'), false);
+					assertEquals(await g.getenv('PHP_WORLD_TEST_ENV'), 'Value 1');
+				}
+			}
+			finally
+			{	Deno.env.delete('PHP_WORLD_TEST_ENV_2');
+				settings.env = {};
+				settings.clear_env = false;
+				settings.cwd = '';
+			}
+			await g.exit();
+		}
+		php.close_idle();
+	}
+	finally
+	{	await Deno.remove(tmp_dir);
+	}
+}
+
+async function test_composer(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	// minimal imitation of composer autoloader (/tmp is shared with docker container)
+	const tmp_dir = await Deno.makeTempDir({dir: '/tmp'});
+	await Deno.mkdir(tmp_dir+'/vendor');
+	await Deno.mkdir(tmp_dir+'/src/Sub', {recursive: true});
+	await Deno.mkdir(tmp_dir+'/legacy');
+	await Deno.writeTextFile
+	(	tmp_dir+'/vendor/autoload.php',
+		`<?php
+		namespace Composer\\Autoload;
+
+		class ClassLoader
+		{	private $psr4 = [];
+			private $class_map = [];
+
+			function getClassMap() {return $this->class_map;}
+			function getPrefixesPsr4() {return $this->psr4;}
+			function addPsr4($prefix, $dir) {$this->psr4[$prefix] = [$dir];}
+			function addClassMap($class_map) {$this->class_map = $class_map;}
+			function register() {spl_autoload_register([$this, 'loadClass']);}
+
+			function loadClass($class_name)
+			{	if (isset($this->class_map[$class_name]))
+				{	require $this->class_map[$class_name];
+					return true;
+				}
+				foreach ($this->psr4 as $prefix => $dirs)
+				{	if (strpos($class_name, $prefix) === 0)
+					{	$file = $dirs[0].'/'.str_replace('\\\\', '/', substr($class_name, strlen($prefix))).'.php';
+						if (is_file($file))
+						{	require $file;
+							return true;
+						}
+					}
+				}
+			}
+		}
+
+		$loader = new ClassLoader;
+		$loader->addPsr4('App\\\\', __DIR__.'/../src');
+		$loader->addClassMap(['Legacy_Thing' => __DIR__.'/../legacy/thing.php']);
+		$loader->register();
+		return $loader;
+		`
+	);
+	await Deno.writeTextFile(tmp_dir+'/src/Greeter.php', `<?php namespace App; class Greeter {static function hello($name) {return "Hello, $name";}}`);
+	await Deno.writeTextFile(tmp_dir+'/src/Sub/Tool.php', `<?php namespace App\\Sub; class Tool {}`);
+	await Deno.writeTextFile(tmp_dir+'/legacy/thing.php', `<?php class Legacy_Thing {const VALUE = 'legacy';}`);
+
+	try
+	{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+		{	settings.composer = tmp_dir;
+			try
+			{	assertEquals(await c.App.Greeter.hello('all'), 'Hello, all');
+				assertEquals(await c.Legacy_Thing.VALUE, 'legacy');
+
+				// list classes
+				const classes = ['App\\Greeter', 'App\\Sub\\Tool', 'Legacy_Thing'];
+				assertEquals(await php.composer_classes(), classes);
+				const classes_2 = [];
+				for await (const class_name of c)
+				{	classes_2.push(class_name);
+				}
+				assertEquals(classes_2, classes);
+
+				// class not found
+				let error;
+				try
+				{	await c.App.Missing.hello('all');
+				}
+				catch (e)
+				{	error = e;
+				}
+				assert(error instanceof InterpreterError);
+				assert(error.message.includes('composer dump-autoload'));
+				await g.exit();
+
+				// path to autoload.php
+				settings.composer = tmp_dir+'/vendor/autoload.php';
+				assertEquals(await c.App.Greeter.hello('again'), 'Hello, again');
+				await g.exit();
+
+				// autoloader not found
+				settings.composer = tmp_dir+'/no_such_dir';
+				error = undefined;
+				try
+				{	await g.strlen('abc');
+				}
+				catch (e)
+				{	error = e;
+				}
+				assert(error instanceof Error);
+				assert(error.message.includes('Composer autoloader not found'));
+			}
+			finally
+			{	settings.composer = '';
+			}
+			await g.exit();
+		}
+		php.close_idle();
+	}
+	finally
+	{	await Deno.remove(tmp_dir, {recursive: true});
+	}
+}
+
+async function test_trace(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const trace_file = await Deno.makeTempFile({suffix: '.jsonl'});
+	try
+	{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+		{	const records = new Array<PhpTraceRecord>;
+			await g.strlen('init');
+			await Deno.writeTextFile(trace_file, '');
+			settings.ontrace = r => {records.push(r)};
+			settings.trace_file = trace_file;
+			settings.trace_payload_max = 20;
+			try
+			{	assertEquals(await php_eval('global $window; return $window->parseInt("12px");'), 12);
+				assertEquals(await g.str_repeat('a', 100), 'a'.repeat(100));
+			}
+			finally
+			{	settings.ontrace = undefined;
+				settings.trace_file = '';
+				settings.trace_payload_max = 200;
+			}
+			assertEquals
+			(	records.map(r => [r.direction, r.type, r.level]),
+				[	['out', 'CALL_EVAL', 0],
+					['in', 'CLASS_CALL', 0],
+					['out', 'DATA', 0],
+					['in', 'RESULT', 0],
+					['out', 'CALL', 0],
+					['in', 'RESULT', 0],
+				]
+			);
+			assertEquals(records[1].payload, '1 ["parseInt",["12px…');
+			assertEquals(records[2].payload, '16 12');
+			assertEquals(records[3].payload, '12');
+			assert(records[3].duration! >= 0);
+			assertEquals(records[5].size, 102);
+			assertEquals(records[5].payload, '"'+'a'.repeat(19)+'…');
+			const lines = (await Deno.readTextFile(trace_file)).trim().split('\n').map(line => JSON.parse(line));
+			assertEquals(lines, JSON.parse(JSON.stringify(records)));
+
+			await g.exit();
+		}
+		php.close_idle();
+	}
+	finally
+	{	await Deno.remove(trace_file);
+	}
+}
+
+async function test_metrics(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	await g.strlen('init');
+		const before = php.metrics.snapshot();
+		const global_before = global_metrics.snapshot();
+		assert(before.spawns >= 1);
+
+		assertEquals(await php_eval('global $window; return $window->parseInt("12px");'), 12);
+		assertEquals(await g.str_repeat('a', 100), 'a'.repeat(100));
+
+		const after = php.metrics.snapshot();
+		assertEquals((after.calls.CALL_EVAL ?? 0) - (before.calls.CALL_EVAL ?? 0), 1);
+		assertEquals((after.calls.CALL ?? 0) - (before.calls.CALL ?? 0), 1);
+		assertEquals(after.calls.DATA, undefined);
+		assertEquals((after.callbacks.CLASS_CALL ?? 0) - (before.callbacks.CLASS_CALL ?? 0), 1);
+		assertEquals(after.latency.count - before.latency.count, 2);
+		assertEquals(after.latency.counts.reduce((a, b) => a+b), after.latency.count);
+		assert(after.bytes_read-before.bytes_read > 100);
+		assert(after.bytes_written > before.bytes_written);
+		const global_after = global_metrics.snapshot();
+		assertEquals(global_after.latency.count - global_before.latency.count, 2);
+		assertEquals(global_after.bytes_read - global_before.bytes_read, after.bytes_read - before.bytes_read);
+
+		await g.exit();
+		await g.strlen('respawn');
+		assertEquals(php.metrics.snapshot().respawns - before.respawns, 1);
+
+		const text = php.metrics.to_prometheus('php', {interpreter: 'main'});
+		assert(text.includes('# TYPE php_calls_total counter\n'));
+		assert(text.includes('php_calls_total{interpreter="main",type="CALL_EVAL"} '));
+		assert(text.includes('php_call_duration_seconds_bucket{interpreter="main",le="+Inf"} '));
+		assert(text.includes('# TYPE php_spawn_duration_seconds histogram\n'));
+
+		await g.exit();
+	}
+	php.close_idle();
+}
+
+async function test_restart(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	const crash = async (code: number) =>
+	{	let error;
+		try
+		{	await php_eval(`exit(${code});`);
+		}
+		catch (e)
+		{	error = e;
+		}
+		assert(error instanceof InterpreterExitError);
+		await new Promise(y => setTimeout(y, 300));
+	};
+	try
+	{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+		{	const restarts = new Array<number>;
+			settings.onrestart = (_error, n_restarts) => {restarts.push(n_restarts)};
+			settings.restart_backoff = 10;
+
+			// never
+			await crash(1);
+			assertEquals(php.is_active, false);
+
+			// on_crash
+			settings.restart = 'on_crash';
+			await crash(1);
+			assertEquals(php.is_active, true);
+			assertEquals(restarts, [1]);
+			if (!settings.php_fpm.listen)
+			{	await crash(0);
+				assertEquals(php.is_active, false);
+			}
+
+			// always
+			settings.restart = 'always';
+			await crash(0);
+			assertEquals(php.is_active, true);
+			assertEquals(restarts, [1, 2]);
+			assertEquals(await g.strlen('abc'), 3);
+
+			// restart_max
+			settings.restart_max = 2;
+			await crash(1);
+			assertEquals(php.is_active, false);
+			assertEquals(restarts, [1, 2]);
+
+			// g.exit() resets the counter
+			await g.exit();
+			await crash(1);
+			assertEquals(php.is_active, true);
+			assertEquals(restarts, [1, 2, 1]);
+
+			// onrestart can call the interpreter
+			settings.onrestart = async () =>
+			{	await g.ini_set('precision', '11');
+			};
+			await crash(1);
+			assertEquals(php.is_active, true);
+			assertEquals(await g.ini_get('precision'), '11');
+
+			settings.restart = 'never';
+			settings.restart_max = 5;
+			settings.restart_backoff = 100;
+			settings.onrestart = undefined;
+			await g.exit();
+		}
+		php.close_idle();
+	}
+	finally
+	{	settings.restart = 'never';
+		settings.restart_max = 5;
+		settings.restart_backoff = 100;
+		settings.onrestart = undefined;
+	}
+}
+
+async function test_codecs(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	class TestMoney
+	{	constructor(public amount: bigint, public currency: string)
+		{
+		}
+	}
+	register_codec<TestMoney>
+	(	{	name: 'TestMoney',
+			test: value => value instanceof TestMoney,
+			encode: value => [value.amount, value.currency],
+			decode: ([amount, currency]) => new TestMoney(BigInt(amount), currency),
+		}
+	);
+	try
+	{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+		{	settings.codecs = true;
+
+			// Date
+			const date = await php_eval(`return new DateTimeImmutable('2020-01-01 10:00:00.123+02:00');`);
+			assert(date instanceof Date);
+			assertEquals(date.toISOString(), '2020-01-01T08:00:00.123Z');
+			assertEquals(await g.date_format(new Date('2020-01-01T00:00:00Z'), 'Y-m-d H:i:s'), '2020-01-01 00:00:00');
+			assertEquals(await g.array_values([new Date(0)]), [new Date(0)]);
+
+			// Map and Set
+			assertEquals(await json_encode(new Map<string, unknown>([['a', 1], ['b', new Set(['x'])]])), '{"a":1,"b":["x"]}');
+			assertEquals(await g.count(new Set([1, 2, 2])), 2);
+
+			// BigInt
+			assertEquals(await php_eval('return PHP_INT_MAX;'), 9223372036854775807n);
+			assertEquals(await php_eval('return 100;'), 100);
+			assertEquals(await g.gettype(5n), 'integer');
+			assertEquals(await g.intdiv(10n**15n, 10), 10**14);
+
+			// DateInterval
+			const interval = await php_eval(`return new DateInterval('P1Y2M3DT4H5M6S');`);
+			assertEquals(interval, new PhpDuration(1, 2, 3, 4, 5, 6));
+			assertEquals(interval.toString(), 'P1Y2M3DT4H5M6S');
+			assertEquals(await g.date_interval_format(new PhpDuration(0, 0, 1, 12, 0, 0, 0, true), '%R%d %h'), '-1 12');
+
+			// Values returned from Deno callbacks
+			assertEquals(await php_eval(`global $window; return get_class($window->eval('new Date(0)'));`), 'DateTimeImmutable');
+			assertEquals(await php_eval(`global $window; return $window->eval('new Map([["a", 1]])')['a'];`), 1);
+			assertEquals(await php_eval(`global $window; return $window->eval('5n') === 5;`), true);
+			assertEquals(await php_eval(`global $window; return (string)$window->eval('2n**64n');`), '18446744073709551616');
+
+			// Custom codec
+			await php_eval
+			(	`	class TestMoney
+					{	function __construct(public int $amount, public string $currency) {}
+					}
+					DenoWorld::register_codec('TestMoney', 'TestMoney', fn($value) => [$value->amount, $value->currency], fn($data) => new TestMoney(...$data));
+				`
+			);
+			assertEquals(await php_eval(`return new TestMoney(100, 'EUR');`), new TestMoney(100n, 'EUR'));
+			assertEquals(await g.get_class(new TestMoney(5n, 'USD')), 'TestMoney');
+
+			// settings.codecs
+			await g.exit();
+			settings.codecs = false;
+			assertEquals(await php_eval(`global $window; return $window->eval('new Date(0)') instanceof DenoWorld;`), true);
+			assertEquals(await php_eval('return PHP_INT_MAX;'), 9223372036854775807);
+			assertEquals(await json_encode({n: 1n, list: [2n]}), '{"n":"1","list":["2"]}');
+			assertEquals(await php_eval(`global $window; return $window->eval('({n: 1n})')->n;`), '1');
+
+			await g.exit();
+		}
+		php.close_idle();
+	}
+	finally
+	{	settings.codecs = false;
+	}
+}
+
+async function test_worker(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	const worker = new PhpWorker(settings);
+		try
+		{	assertEquals(await worker.g.phpversion(), await g.phpversion());
+
+			// Variables
+			worker.g.$var = {a: [1, 2]};
+			assertEquals(await worker.g.$var['a'][1], 2);
+			delete worker.g.$var;
+			assertEquals(await worker.g.$var, undefined);
+
+			// Object handles
+			await worker.g.eval
+			(	`	class WorkerCounter
+					{	public $n = 0;
+						function inc($by=1) {return $this->n += $by;}
+						static function create() {return new self;}
+						function gen() {yield 'a'; yield 'b';}
+					}
+				`
+			);
+			const counter = await new worker.c.WorkerCounter;
+			assertEquals(await counter.inc(), 1);
+			assertEquals(await counter.inc(2), 3);
+			assertEquals(await counter.n, 3);
+			counter.n = 10;
+			assertEquals(await counter.n, 10);
+			assert(counter instanceof worker.c.WorkerCounter);
+			assert(!(counter instanceof worker.c.Exception));
+			const counter_2 = await worker.c.WorkerCounter.create().this;
+			assertEquals(await counter_2.inc(), 1);
+			assertEquals(await worker.g.get_class(counter_2), 'WorkerCounter');
+			counter_2[Symbol.dispose]();
+
+			// Iteration
+			const gen = await counter.gen().this;
+			assert(gen instanceof worker.c.Generator);
+			const items = [];
+			for await (const item of gen)
+			{	items.push(item);
+			}
+			assertEquals(items, ['a', 'b']);
+
+			// Callbacks
+			assertEquals(await worker.g.array_map((v: number) => v*2, [1, 2, 3]), [2, 4, 6]);
+			assertEquals(await worker.g.call_user_func(async (v: Any) => await v.inc(5), counter), 15);
+
+			// Errors
+			let error;
+			try
+			{	await worker.g.eval('throw new InvalidArgumentException("Bad", 7);');
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof InterpreterError);
+			assertEquals(error.message, 'Bad');
+			assertEquals(error.phpClass, 'InvalidArgumentException');
+			assertEquals(error.code, 7);
+
+			// not cloneable arguments
+			error = undefined;
+			try
+			{	await worker.g.count(new class {map = new WeakMap});
+			}
+			catch (e)
+			{	error = e;
+			}
+			assert(error instanceof Error);
+			assertEquals(error.name, 'DataCloneError');
+			assertEquals(await worker.g.strlen('abc'), 3);
+		}
+		finally
+		{	await worker.terminate();
+		}
+
+		// setting after terminate() doesn't cause unhandled rejection
+		worker.g.$x = 1;
+		delete worker.g.$x;
+		await new Promise(y => setTimeout(y, 10));
+	}
+}
+
+async function test_repl(php_cli_name: string|string[], php_fpm_listen: string, localhost_name_bind: string, localhost_name: string, interpreter_script: string)
+{	for (const _ of settings_iter(settings, php_cli_name, php_fpm_listen, localhost_name_bind, localhost_name, interpreter_script))
+	{	const repl = new PhpRepl(php, {history_file: '', colors: false});
+
+		// JavaScript mode
+		assertEquals(await repl.eval('g.strlen("abc")'), '3');
+		assertEquals(await repl.eval('const x = 5'), '');
+		assertEquals(await repl.eval('x * 2'), '10');
+		assertEquals(await repl.eval('new c.ArrayObject([])'), '[PHP object ArrayObject]');
+		assertEquals(await repl.eval('.php 1 + 1'), '2');
+		assertEquals(repl.mode, 'ts');
+		assertEquals(await repl.complete('g.str_repe'), {from: 2, candidates: ['str_repeat']});
+		assert((await repl.complete('c.ArrayObj')).candidates.includes('ArrayObject'));
+
+		// PHP mode
+		await repl.eval('.php');
+		assertEquals(repl.mode, 'php');
+		assertEquals(await repl.eval('$repl_a = array_sum([1, 2, 3])'), '6');
+		assertEquals(await repl.eval('$repl_a + 1;'), '7');
+		assertEquals(await repl.eval("'abc'"), '"abc"');
+		assertEquals(await repl.eval('.ts g.$repl_a'), '6');
+		assertEquals(await repl.eval('function repl_f() {return 1;}'), 'null');
+		assertEquals(await repl.complete('echo repl_'), {from: 5, candidates: ['repl_f']});
+		assertEquals(await repl.complete('$repl_'), {from: 0, candidates: ['$repl_a']});
+		assert((await repl.eval('throw new InvalidArgumentException("Bad")')).startsWith('InvalidArgumentException: Bad\n'));
+
+		await g.exit();
+	}
+	php.close_idle();
+}
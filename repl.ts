@@ -0,0 +1,58 @@
+/**	Interactive command line, that evaluates JavaScript expressions against `g` and `c`, or PHP code.
+
+	```bash
+	deno run --allow-all https://deno.land/x/php_world@v0.0.54/repl.ts
+	```
+
+	Options:
+	- `--php` - start in PHP mode (by default starts in JavaScript mode).
+	- `--file=PATH` - PHP file to `require_once` before starting (can be repeated).
+	- `--composer=PATH` - path to composer's `vendor/autoload.php`.
+	- `--php-cli=COMMAND` - PHP-CLI command name (default `php`).
+	- `--history=PATH` - file where to keep history (default `~/.php_world_repl_history`). Use `--history=` to not keep history.
+ **/
+
+import {PhpInterpreter} from './private/php_interpreter.ts';
+import {PhpRepl, PhpReplOptions} from './private/repl.ts';
+
+if (import.meta.main)
+{	const options: PhpReplOptions = {};
+	const files = new Array<string>;
+	let php_cli_name = 'php';
+	let composer = '';
+	for (const arg of Deno.args)
+	{	const pos = arg.indexOf('=');
+		const name = pos==-1 ? arg : arg.slice(0, pos);
+		const value = pos==-1 ? '' : arg.slice(pos+1);
+		switch (name)
+		{	case '--php':
+				options.mode = 'php';
+				break;
+			case '--file':
+				files.push(value);
+				break;
+			case '--composer':
+				composer = value;
+				break;
+			case '--php-cli':
+				php_cli_name = value;
+				break;
+			case '--history':
+				options.history_file = value;
+				break;
+			default:
+				console.error(`Unknown option: ${arg}`);
+				Deno.exit(1);
+		}
+	}
+	const php = new PhpInterpreter({php_cli_name, composer});
+	try
+	{	for (const file of files)
+		{	await php.g.require_once(file);
+		}
+		await new PhpRepl(php, options).run();
+	}
+	finally
+	{	await php.g.exit();
+	}
+}